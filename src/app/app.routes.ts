@@ -2,12 +2,20 @@ import { Routes } from '@angular/router';
 import { DashboardComponent } from './features/dashboard/dashboard.component';
 import { AlgorithmParametersComponent } from './features/algorithm-parameters/algorithm-parameters.component';
 import { UploadComponent } from './features/upload/upload.component';
+import { UploadErrorsComponent } from './features/upload/upload-errors/upload-errors.component';
+import { UploadFixComponent } from './features/upload/upload-fix/upload-fix.component';
+import { UploadHistoryComponent } from './features/upload/upload-history/upload-history.component';
 import { NoosAnalyticsComponent } from './features/reports/noos-analytics.component';
+import { TaskCenterComponent } from './features/tasks/task-center.component';
 
 export const routes: Routes = [
   { path: '', redirectTo: '/dashboard', pathMatch: 'full' },
   { path: 'dashboard', component: DashboardComponent },
   { path: 'upload', component: UploadComponent },
+  { path: 'upload/errors/:taskId', component: UploadErrorsComponent },
+  { path: 'upload/errors/:taskId/fix', component: UploadFixComponent },
+  { path: 'upload-history', component: UploadHistoryComponent },
+  { path: 'tasks', component: TaskCenterComponent },
   { path: 'algorithm-parameters', component: AlgorithmParametersComponent },
   { path: 'reports/noos-analytics', component: NoosAnalyticsComponent },
   // TODO: Add other report routes as components are created
@@ -1,5 +1,6 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule, FormsModule, AbstractControl, ValidationErrors } from '@angular/forms';
 import { debounceTime, distinctUntilChanged, takeUntil, Subject } from 'rxjs';
 
@@ -7,6 +8,8 @@ import { AlgorithmParametersService, AlgorithmParameters } from '../../shared/se
 import { DashboardService } from '../../shared/services/dashboard.service';
 import { TaskService } from '../../shared/services/task.service';
 import { NotificationService } from '../../shared/services/notification.service';
+import { NoosRerunService, NoosRerunSource } from '../../shared/services/noos-rerun.service';
+import { RUN_PARAMETER_LABELS } from '../../shared/utils/recorded-parameters';
 import { CustomDropdownComponent, DropdownOption } from '../../shared/components/custom-dropdown/custom-dropdown.component';
 
 @Component({
@@ -29,6 +32,8 @@ export class AlgorithmParametersComponent implements OnInit, OnDestroy {
   selectedParameterSet = 'default';
   showSaveAsModal = false;
   newParameterSetName = '';
+  /** Earlier run whose parameters pre-filled the form; auto-save stays off while it is set */
+  rerunSource: NoosRerunSource | null = null;
   private destroy$ = new Subject<void>();
   private isAutoSaving = false;
   private isSavingAsNew = false;
@@ -136,9 +141,13 @@ export class AlgorithmParametersComponent implements OnInit, OnDestroy {
     private algorithmParamsService: AlgorithmParametersService,
     private dashboardService: DashboardService,
     private taskService: TaskService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private noosRerunService: NoosRerunService,
+    router: Router
   ) {
     this.parametersForm = this.createForm();
+    // Navigation state is only readable while the navigation is in progress
+    this.rerunSource = router.getCurrentNavigation()?.extras.state?.['noosRerun'] ?? null;
   }
 
   ngOnInit(): void {
@@ -181,14 +190,58 @@ export class AlgorithmParametersComponent implements OnInit, OnDestroy {
           coreDurationMonths: params.coreDurationMonths.toString(),
           bestsellerDurationDays: params.bestsellerDurationDays.toString()
         });
+        this.applyRerunParameters();
       },
       error: (error) => {
         console.error('Error loading default parameters:', error);
         this.notificationService.error('Load Failed', 'Failed to load default parameters');
+        this.applyRerunParameters();
       }
     });
   }
 
+  /**
+   * Overlay the re-run source's parameters on the loaded defaults; fields it did not record keep their defaults
+   */
+  private applyRerunParameters(): void {
+    if (!this.rerunSource) {
+      return;
+    }
+
+    const recorded = this.rerunSource.parameters;
+    const values: { [field: string]: string } = {};
+    if (recorded.liquidationThreshold !== undefined) values['liquidationThreshold'] = this.decimalToPercentage(recorded.liquidationThreshold);
+    if (recorded.bestsellerMultiplier !== undefined) values['bestsellerMultiplier'] = recorded.bestsellerMultiplier.toString();
+    if (recorded.minVolumeThreshold !== undefined) values['minVolumeThreshold'] = recorded.minVolumeThreshold.toString();
+    if (recorded.consistencyThreshold !== undefined) values['consistencyThreshold'] = this.decimalToPercentage(recorded.consistencyThreshold);
+    // Recorded dates are UTC midnight, so take the date part as is rather than in local time
+    if (recorded.analysisStartDate) values['analysisStartDate'] = new Date(recorded.analysisStartDate).toISOString().split('T')[0];
+    if (recorded.analysisEndDate) values['analysisEndDate'] = new Date(recorded.analysisEndDate).toISOString().split('T')[0];
+    if (recorded.coreDurationMonths !== undefined) values['coreDurationMonths'] = recorded.coreDurationMonths.toString();
+    if (recorded.bestsellerDurationDays !== undefined) values['bestsellerDurationDays'] = recorded.bestsellerDurationDays.toString();
+    this.parametersForm.patchValue(values);
+    this.parametersForm.markAllAsTouched();
+
+    if (this.rerunSource.missing.length > 0) {
+      this.notificationService.warning(
+        'Incomplete Parameters',
+        `${this.rerunSource.label} did not record ${this.getMissingLabels()}; those fields show the defaults`
+      );
+    }
+  }
+
+  /**
+   * Stop re-running the earlier run and go back to the active parameter set
+   */
+  discardRerun(): void {
+    this.rerunSource = null;
+    this.loadDefaultParameters();
+  }
+
+  getMissingLabels(): string {
+    return (this.rerunSource?.missing || []).map(parameter => RUN_PARAMETER_LABELS[parameter]).join(', ');
+  }
+
   private loadParameterSets(): void {
     // Load both active and inactive parameter sets
     this.algorithmParamsService.getRecentParameterSets(50).subscribe({
@@ -229,6 +282,7 @@ export class AlgorithmParametersComponent implements OnInit, OnDestroy {
     if (!parameterSet) return;
     
     this.selectedParameterSet = parameterSet;
+    this.rerunSource = null;
     
     // Show loading state
     this.notificationService.info('Loading', `Loading parameter set: ${parameterSet}`);
@@ -270,7 +324,8 @@ export class AlgorithmParametersComponent implements OnInit, OnDestroy {
         takeUntil(this.destroy$)
       )
       .subscribe(() => {
-        if (this.parametersForm.valid && !this.isAutoSaving && this.selectedParameterSet) {
+        // A re-run's parameters belong to the earlier run, not to the selected parameter set
+        if (this.parametersForm.valid && !this.isAutoSaving && this.selectedParameterSet && !this.rerunSource) {
           this.autoSaveParameters();
         }
       });
@@ -329,9 +384,13 @@ export class AlgorithmParametersComponent implements OnInit, OnDestroy {
         lastUpdated: new Date()
       };
 
-      this.dashboardService.runNoosAlgorithm(parameters).subscribe({
+      const rerunSource = this.rerunSource;
+      this.dashboardService.runNoosAlgorithm(parameters, { parentTaskId: rerunSource?.taskId, parentRunId: rerunSource?.reportId }).subscribe({
         next: (task) => {
           this.isRunning = false;
+          if (rerunSource) {
+            this.noosRerunService.recordRerun(task.id, rerunSource);
+          }
           this.notificationService.success('Algorithm Started', `Algorithm started successfully. Task ID: ${task.id}`);
           // Optionally redirect to task monitoring or refresh dashboard
         },
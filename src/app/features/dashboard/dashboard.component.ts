@@ -1,11 +1,13 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterModule } from '@angular/router';
-import { interval, Subscription } from 'rxjs';
+import { asyncScheduler, filter, forkJoin, interval, Subscription, switchMap, tap, throttleTime } from 'rxjs';
 
 import { DashboardService } from '../../shared/services/dashboard.service';
-import { TaskService, Task, TaskStats } from '../../shared/services/task.service';
+import { TaskService } from '../../shared/services/task.service';
+import { Task, TaskStats, TaskStatus } from '../../shared/models/task.model';
 import { NotificationService } from '../../shared/services/notification.service';
+import { UploadService, UploadMode, UPLOAD_MODES } from '../../shared/services/upload.service';
 import { NoosResultSummary, DashboardData } from '../../shared/models/dashboard-data.model';
 
 @Component({
@@ -26,6 +28,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
   // Dashboard metrics
   dashboardData: DashboardData | null = null;
   isDashboardLoading = false;
+  uploadModes: { [fileType: string]: UploadMode } = {};
   
   // Task monitoring
   taskStats: TaskStats | null = null;
@@ -42,12 +45,17 @@ export class DashboardComponent implements OnInit, OnDestroy {
   selectedTabIndex = 0;
   
   private refreshSubscription?: Subscription;
+  private taskUpdatesSubscription?: Subscription;
   private readonly REFRESH_INTERVAL = 30000; // 30 seconds
+  private readonly TASK_RELOAD_THROTTLE = 2000;
+  /** Last known status of every loaded or pushed task, to tell status transitions from progress updates */
+  private taskStatuses = new Map<number, TaskStatus>();
 
   constructor(
     private dashboardService: DashboardService,
     private taskService: TaskService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private uploadService: UploadService
   ) {}
 
   ngOnInit(): void {
@@ -62,6 +70,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
     if (this.refreshSubscription) {
       this.refreshSubscription.unsubscribe();
     }
+    this.taskUpdatesSubscription?.unsubscribe();
   }
 
   loadNoosResults(): void {
@@ -96,10 +105,39 @@ export class DashboardComponent implements OnInit, OnDestroy {
   }
 
 
+  /**
+   * Refresh when pushed task updates say something changed, and on a timer while they are not arriving
+   */
   startAutoRefresh(): void {
-    this.refreshSubscription = interval(this.REFRESH_INTERVAL).subscribe(() => {
-      this.loadNoosResults();
-    });
+    this.refreshSubscription = interval(this.REFRESH_INTERVAL)
+      .pipe(filter(() => !this.taskService.isLive))
+      .subscribe(() => {
+        this.loadNoosResults();
+      });
+
+    // Progress updates only touch their row; new tasks and status changes also move the stats and the list,
+    // which are reloaded at most once per throttle window with any reload still in flight cancelled
+    this.taskUpdatesSubscription = this.taskService.taskUpdates$
+      .pipe(
+        tap(task => this.recentTasks = this.recentTasks.map(recent => recent.id === task.id ? task : recent)),
+        filter(task => {
+          const previous = this.taskStatuses.get(task.id);
+          this.taskStatuses.set(task.id, task.status);
+          return previous !== task.status;
+        }),
+        tap(task => {
+          if (task.status === 'COMPLETED' && task.taskType.includes('NOOS')) {
+            this.loadNoosResults();
+            this.loadDashboardData();
+          }
+        }),
+        throttleTime(this.TASK_RELOAD_THROTTLE, asyncScheduler, { leading: true, trailing: true }),
+        switchMap(() => forkJoin({ stats: this.taskService.getTaskStats(), tasks: this.taskService.getTasks() }))
+      )
+      .subscribe(({ stats, tasks }) => {
+        this.taskStats = stats;
+        this.setRecentTasks(tasks);
+      });
   }
 
   refreshNoosResults(): void {
@@ -119,6 +157,28 @@ export class DashboardComponent implements OnInit, OnDestroy {
         this.isDashboardLoading = false;
       }
     });
+
+    this.uploadService.getCurrentUploadModes().subscribe({
+      next: (modes) => {
+        this.uploadModes = modes;
+      },
+      error: (error) => {
+        console.error('Error loading upload modes:', error);
+      }
+    });
+  }
+
+  /**
+   * Which upload mode produced the current counts, e.g. "Loaded by Append"
+   */
+  getUploadModeText(fileTypes: string[]): string {
+    const labels = fileTypes
+      .filter(fileType => this.uploadModes[fileType])
+      .map(fileType => {
+        const label = UPLOAD_MODES.find(option => option.mode === this.uploadModes[fileType])?.label;
+        return fileTypes.length > 1 ? `${fileType}: ${label}` : label;
+      });
+    return labels.length > 0 ? `Loaded by ${labels.join(' · ')}` : '';
   }
 
   loadTaskData(): void {
@@ -137,7 +197,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
     // Load recent tasks
     this.taskService.getTasks().subscribe({
       next: (tasks) => {
-        this.recentTasks = tasks.slice(0, 5); // Show only last 5 tasks
+        this.setRecentTasks(tasks);
         this.isTaskLoading = false;
       },
       error: (error) => {
@@ -147,6 +207,11 @@ export class DashboardComponent implements OnInit, OnDestroy {
     });
   }
 
+  private setRecentTasks(tasks: Task[]): void {
+    tasks.forEach(task => this.taskStatuses.set(task.id, task.status));
+    this.recentTasks = tasks.slice(0, 5); // Show only last 5 tasks
+  }
+
   loadSystemHealth(): void {
     this.isHealthLoading = true;
     this.dashboardService.getSystemHealth().subscribe({
@@ -4,6 +4,7 @@ import { ScrollingModule } from '@angular/cdk/scrolling';
 import { Chart, ChartConfiguration, ChartType, registerables } from 'chart.js';
 import { ReportsService } from '../../shared/services/reports.service';
 import { NotificationService } from '../../shared/services/notification.service';
+import { NoosRerunService } from '../../shared/services/noos-rerun.service';
 import { NoosAnalyticsReport } from '../../shared/models/report.model';
 
 // Register Chart.js components
@@ -36,7 +37,8 @@ export class NoosAnalyticsComponent implements OnInit, AfterViewInit {
 
   constructor(
     private reportsService: ReportsService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private noosRerunService: NoosRerunService
   ) {}
 
   ngOnInit(): void {
@@ -362,6 +364,18 @@ export class NoosAnalyticsComponent implements OnInit, AfterViewInit {
     return item.id || index;
   }
 
+  /**
+   * Open the algorithm parameters screen pre-filled with the parameters a run recorded
+   */
+  rerunRun(run: NoosAnalyticsReport): void {
+    const source = this.noosRerunService.fromReport(run);
+    if (!source) {
+      this.notificationService.error('Re-run Unavailable', `The parameters of ${run.algorithmLabel} could not be read`);
+      return;
+    }
+    this.noosRerunService.openInParameters(source);
+  }
+
   /**
    * Download a specific NOOS run
    */
@@ -0,0 +1,122 @@
+import { Subject, of, throwError } from 'rxjs';
+import { HttpErrorResponse } from '@angular/common/http';
+import { TaskCenterComponent } from './task-center.component';
+import { TaskService } from '../../shared/services/task.service';
+import { TaskWatcherService } from '../../shared/services/task-watcher.service';
+import { NotificationService } from '../../shared/services/notification.service';
+import { NoosRerunService } from '../../shared/services/noos-rerun.service';
+import { Task, TaskStatus } from '../../shared/models/task.model';
+
+describe('TaskCenterComponent', () => {
+  let component: TaskCenterComponent;
+  let taskService: jasmine.SpyObj<TaskService>;
+  let notificationService: jasmine.SpyObj<NotificationService>;
+
+  const task = (id: number, status: TaskStatus, changes: Partial<Task> = {}): Task => ({
+    id,
+    taskType: 'UPLOAD_SALES',
+    status,
+    startTime: `2024-01-${String(id % 28 + 1).padStart(2, '0')}T10:00:00`,
+    createdDate: '2024-01-01T00:00:00',
+    ...changes
+  });
+
+  const load = (tasks: Task[]): void => {
+    taskService.getTasks.and.returnValue(of(tasks));
+    component.loadTasks();
+  };
+
+  beforeEach(() => {
+    taskService = jasmine.createSpyObj<TaskService>('TaskService', ['getTasks', 'getTaskStats', 'cancelTask'], {
+      taskUpdates$: new Subject<Task>()
+    });
+    taskService.getTaskStats.and.returnValue(of({ total: 0, running: 0, completed: 0, failed: 0, cancelled: 0 }));
+    notificationService = jasmine.createSpyObj<NotificationService>('NotificationService', ['error', 'info', 'success']);
+    component = new TaskCenterComponent(
+      taskService,
+      jasmine.createSpyObj<TaskWatcherService>('TaskWatcherService', ['watch']),
+      notificationService,
+      jasmine.createSpyObj<NoosRerunService>('NoosRerunService', ['fromTask', 'runAgain', 'openInParameters'])
+    );
+  });
+
+  afterEach(() => component.ngOnDestroy());
+
+  it('should filter by status, task type, user and start date', () => {
+    load([
+      task(1, 'COMPLETED', { userId: 'ana' }),
+      task(2, 'FAILED', { userId: 'ana' }),
+      task(3, 'COMPLETED', { userId: 'raj', taskType: 'RUN_NOOS' }),
+      task(4, 'COMPLETED', { userId: 'ana', startTime: '2024-02-10T10:00:00' })
+    ]);
+
+    expect(component.taskTypes).toEqual(['RUN_NOOS', 'UPLOAD_SALES']);
+    expect(component.users).toEqual(['ana', 'raj']);
+
+    component.filterByStatus('COMPLETED');
+    expect(component.filteredTasks.map(t => t.id).sort()).toEqual([1, 3, 4]);
+
+    component.filters.taskType = 'UPLOAD_SALES';
+    component.filters.userId = 'ana';
+    component.applyFilters();
+    expect(component.filteredTasks.map(t => t.id).sort()).toEqual([1, 4]);
+
+    component.filters.fromDate = '2024-02-01';
+    component.filters.toDate = '2024-02-10';
+    component.applyFilters();
+    expect(component.filteredTasks.map(t => t.id)).toEqual([4]);
+
+    component.clearFilters();
+    expect(component.filteredTasks.length).toBe(4);
+    expect(component.hasActiveFilters()).toBeFalse();
+  });
+
+  it('should sort newest first and flip the direction when sorting by the same column again', () => {
+    load([task(2, 'RUNNING'), task(3, 'COMPLETED'), task(1, 'FAILED')]);
+
+    expect(component.filteredTasks.map(t => t.id)).toEqual([3, 2, 1]);
+    expect(component.getSortIcon('startTime')).toBe('expand_more');
+
+    component.sortBy('status');
+    expect(component.filteredTasks.map(t => t.status)).toEqual(['COMPLETED', 'FAILED', 'RUNNING']);
+    expect(component.getSortIcon('status')).toBe('expand_less');
+    expect(component.getSortIcon('startTime')).toBe('unfold_more');
+
+    component.sortBy('status');
+    expect(component.filteredTasks.map(t => t.status)).toEqual(['RUNNING', 'FAILED', 'COMPLETED']);
+  });
+
+  it('should page 25 tasks at a time and keep the page in range', () => {
+    load(Array.from({ length: 60 }, (_, i) => task(i + 1, 'COMPLETED')));
+
+    expect(component.pageCount).toBe(3);
+    expect(component.pageTasks.length).toBe(25);
+
+    component.goToPage(2);
+    expect(component.pageTasks.length).toBe(10);
+
+    component.goToPage(5);
+    expect(component.page).toBe(2);
+    component.goToPage(-1);
+    expect(component.page).toBe(0);
+
+    component.goToPage(2);
+    component.filterByStatus('FAILED');
+    expect(component.page).toBe(0);
+    expect(component.pageCount).toBe(1);
+  });
+
+  it('should stop showing a task as cancelling and report the server message when cancel fails', () => {
+    const running = task(5, 'RUNNING');
+    taskService.cancelTask.and.returnValue(throwError(() => new HttpErrorResponse({
+      status: 409,
+      error: { message: 'Task already finished' }
+    })));
+
+    component.cancelTask(running);
+
+    expect(component.cancelling.has(5)).toBeFalse();
+    expect(notificationService.error).toHaveBeenCalledWith('Cancel Failed', 'Task already finished');
+    expect(taskService.getTasks).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,346 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, Subscription, takeUntil } from 'rxjs';
+import { TaskService } from '../../shared/services/task.service';
+import { TaskWatcherService } from '../../shared/services/task-watcher.service';
+import { NotificationService } from '../../shared/services/notification.service';
+import { NoosRerunService, NoosRerunSource } from '../../shared/services/noos-rerun.service';
+import { Task, TaskStats, TaskStatus, isTaskFinished } from '../../shared/models/task.model';
+import { formatDuration } from '../../shared/utils/transfer-rate';
+import { TaskDetailComponent } from './task-detail/task-detail.component';
+import { TaskTimelineComponent } from './task-timeline/task-timeline.component';
+
+type TaskSortColumn = 'id' | 'taskType' | 'status' | 'userId' | 'startTime' | 'duration';
+
+interface TaskFilters {
+  status: string;
+  taskType: string;
+  userId: string;
+  fromDate: string;
+  toDate: string;
+}
+
+/**
+ * Every backend task as a table or a timeline, with filters, sorting, details and cancel / retry actions
+ */
+@Component({
+  selector: 'app-task-center',
+  templateUrl: './task-center.component.html',
+  styleUrls: ['./task-center.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    TaskDetailComponent,
+    TaskTimelineComponent
+  ]
+})
+export class TaskCenterComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  readonly statuses: TaskStatus[] = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'];
+  readonly pageSize = 25;
+
+  tasks: Task[] = [];
+  filteredTasks: Task[] = [];
+  taskTypes: string[] = [];
+  users: string[] = [];
+  stats: TaskStats | null = null;
+  filters: TaskFilters = { status: '', taskType: '', userId: '', fromDate: '', toDate: '' };
+  sortColumn: TaskSortColumn = 'startTime';
+  sortDirection: 'asc' | 'desc' = 'desc';
+  page = 0;
+  /** The timeline shows every filtered task; sorting and paging only apply to the list */
+  view: 'list' | 'timeline' = 'list';
+  isLoading = false;
+  lastRefreshTime = new Date();
+
+  selectedTask: Task | null = null;
+  cancelling = new Set<number>();
+  retrying = new Set<number>();
+  rerunning = new Set<number>();
+  private selectedTaskWatch?: Subscription;
+
+  constructor(
+    private taskService: TaskService,
+    private taskWatcherService: TaskWatcherService,
+    private notificationService: NotificationService,
+    private noosRerunService: NoosRerunService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadTasks();
+
+    // Keep rows current while the realtime channel is pushing task updates
+    this.taskService.taskUpdates$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(task => {
+        if (this.tasks.some(existing => existing.id === task.id)) {
+          this.onTaskUpdated(task);
+        } else {
+          this.loadTasks();
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.selectedTaskWatch?.unsubscribe();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  loadTasks(): void {
+    this.isLoading = true;
+    this.taskService.getTaskStats()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(stats => this.stats = stats);
+
+    this.taskService.getTasks()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (tasks) => {
+          this.tasks = tasks;
+          this.taskTypes = [...new Set(tasks.map(task => task.taskType))].sort();
+          this.users = [...new Set(tasks.map(task => task.userId).filter((user): user is string => !!user))].sort();
+          this.applyFilters();
+          if (this.selectedTask) {
+            this.selectedTask = tasks.find(task => task.id === this.selectedTask!.id) || this.selectedTask;
+          }
+          this.isLoading = false;
+          this.lastRefreshTime = new Date();
+        },
+        error: (error) => {
+          console.error('Error loading tasks:', error);
+          this.isLoading = false;
+          this.notificationService.error('Load Failed', 'Failed to load tasks');
+        }
+      });
+  }
+
+  /**
+   * Apply the filters and current sort and go back to the first page
+   */
+  applyFilters(): void {
+    const from = this.filters.fromDate ? new Date(`${this.filters.fromDate}T00:00:00`).getTime() : null;
+    const to = this.filters.toDate ? new Date(`${this.filters.toDate}T23:59:59.999`).getTime() : null;
+
+    this.filteredTasks = this.tasks.filter(task => {
+      const started = this.getStartTime(task);
+      return (!this.filters.status || task.status === this.filters.status)
+        && (!this.filters.taskType || task.taskType === this.filters.taskType)
+        && (!this.filters.userId || task.userId === this.filters.userId)
+        && (from === null || started >= from)
+        && (to === null || started <= to);
+    });
+    this.sortTasks();
+    this.page = 0;
+  }
+
+  clearFilters(): void {
+    this.filters = { status: '', taskType: '', userId: '', fromDate: '', toDate: '' };
+    this.applyFilters();
+  }
+
+  hasActiveFilters(): boolean {
+    return Object.values(this.filters).some(value => !!value);
+  }
+
+  filterByStatus(status: TaskStatus | ''): void {
+    this.filters.status = status;
+    this.applyFilters();
+  }
+
+  /**
+   * Sort by a column, flipping the direction when it is already the sort column
+   */
+  sortBy(column: TaskSortColumn): void {
+    if (this.sortColumn === column) {
+      this.sortDirection = this.sortDirection === 'asc' ? 'desc' : 'asc';
+    } else {
+      this.sortColumn = column;
+      this.sortDirection = column === 'startTime' || column === 'duration' ? 'desc' : 'asc';
+    }
+    this.sortTasks();
+  }
+
+  getSortIcon(column: TaskSortColumn): string {
+    if (this.sortColumn !== column) {
+      return 'unfold_more';
+    }
+    return this.sortDirection === 'asc' ? 'expand_less' : 'expand_more';
+  }
+
+  private sortTasks(): void {
+    const direction = this.sortDirection === 'asc' ? 1 : -1;
+    const value = (task: Task): string | number => {
+      switch (this.sortColumn) {
+        case 'id': return task.id;
+        case 'startTime': return this.getStartTime(task);
+        case 'duration': return this.getDurationMs(task) ?? -1;
+        default: return (task[this.sortColumn] || '').toLowerCase();
+      }
+    };
+    this.filteredTasks = [...this.filteredTasks].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      return (left < right ? -1 : left > right ? 1 : 0) * direction || b.id - a.id;
+    });
+  }
+
+  get pageCount(): number {
+    return Math.max(1, Math.ceil(this.filteredTasks.length / this.pageSize));
+  }
+
+  get pageTasks(): Task[] {
+    const start = this.page * this.pageSize;
+    return this.filteredTasks.slice(start, start + this.pageSize);
+  }
+
+  goToPage(page: number): void {
+    this.page = Math.min(Math.max(page, 0), this.pageCount - 1);
+  }
+
+  /**
+   * Open the detail drawer for a task, following it live while it is still running
+   */
+  selectTask(task: Task): void {
+    this.selectedTaskWatch?.unsubscribe();
+    this.selectedTask = task;
+    if (isTaskFinished(task)) {
+      return;
+    }
+
+    this.selectedTaskWatch = this.taskWatcherService.watch(task.id).subscribe({
+      next: (snapshot) => this.onTaskUpdated(snapshot),
+      error: (error) => console.warn(`Stopped following task ${task.id}:`, error)
+    });
+  }
+
+  closeDetail(): void {
+    this.selectedTaskWatch?.unsubscribe();
+    this.selectedTask = null;
+  }
+
+  cancelTask(task: Task): void {
+    this.cancelling.add(task.id);
+    this.taskService.cancelTask(task.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.cancelling.delete(task.id);
+          this.notificationService.info('Cancellation Requested', `Task #${task.id} will stop shortly`);
+          this.loadTasks();
+        },
+        error: (error) => {
+          this.cancelling.delete(task.id);
+          this.notificationService.error('Cancel Failed', error.error?.message || `Could not cancel task #${task.id}`);
+        }
+      });
+  }
+
+  /**
+   * Start a failed or cancelled NOOS run again with the parameters it recorded and show the new task.
+   * The backend has no generic retry, so the run is re-submitted through the NOOS endpoint.
+   */
+  retryTask(task: Task): void {
+    const source = this.noosRerunService.fromTask(task);
+    if (!source) {
+      return;
+    }
+    this.retrying.add(task.id);
+    this.noosRerunService.runAgain(source)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (retried) => {
+          this.retrying.delete(task.id);
+          this.notificationService.success('Task Restarted', `Task #${task.id} was restarted as task #${retried.id}`);
+          this.loadTasks();
+          this.selectTask(retried);
+        },
+        error: (error) => {
+          this.retrying.delete(task.id);
+          console.error(`Error retrying task ${task.id}:`, error);
+          this.notificationService.error('Retry Failed', error.error?.message || error.message || `Could not restart task #${task.id}`);
+        }
+      });
+  }
+
+  openInParameters(source: NoosRerunSource): void {
+    this.noosRerunService.openInParameters(source);
+  }
+
+  /**
+   * Start a new NOOS run with the parameters a completed one recorded and show the new task
+   */
+  runAgain(task: Task, source: NoosRerunSource): void {
+    this.rerunning.add(task.id);
+    this.noosRerunService.runAgain(source)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (rerun) => {
+          this.rerunning.delete(task.id);
+          this.notificationService.success('Algorithm Started', `Task #${task.id} is running again as task #${rerun.id}`);
+          this.loadTasks();
+          this.selectTask(rerun);
+        },
+        error: (error) => {
+          this.rerunning.delete(task.id);
+          console.error(`Error re-running task ${task.id}:`, error);
+          this.notificationService.error('Start Failed', error.error?.message || error.message || `Could not run task #${task.id} again`);
+        }
+      });
+  }
+
+  private onTaskUpdated(snapshot: Task): void {
+    this.tasks = this.tasks.map(task => task.id === snapshot.id ? snapshot : task);
+    this.filteredTasks = this.filteredTasks.map(task => task.id === snapshot.id ? snapshot : task);
+    if (this.selectedTask?.id === snapshot.id) {
+      this.selectedTask = snapshot;
+    }
+  }
+
+  canCancel(task: Task): boolean {
+    return !isTaskFinished(task) && !task.cancellationRequested;
+  }
+
+  /**
+   * Only NOOS runs whose parameters were fully recorded can be re-submitted; uploads need their file again
+   */
+  canRetry(task: Task): boolean {
+    if (task.status !== 'FAILED' && task.status !== 'CANCELLED') {
+      return false;
+    }
+    const source = this.noosRerunService.fromTask(task);
+    return !!source && source.missing.length === 0;
+  }
+
+  getDurationMs(task: Task): number | null {
+    return task.endTime ? new Date(task.endTime).getTime() - this.getStartTime(task) : null;
+  }
+
+  formatDuration(task: Task): string {
+    const durationMs = this.getDurationMs(task);
+    return durationMs === null || durationMs < 0 ? '—' : formatDuration(durationMs / 1000);
+  }
+
+  private getStartTime(task: Task): number {
+    return new Date(task.startTime || task.createdDate).getTime();
+  }
+
+  getStatusClass(status: string): string {
+    switch (status) {
+      case 'COMPLETED': return 'success';
+      case 'FAILED': return 'error';
+      case 'CANCELLED': return 'warning';
+      default: return 'primary';
+    }
+  }
+
+  /**
+   * Get icon name for material icon
+   */
+  getIconName(materialIcon: string): string {
+    return materialIcon;
+  }
+}
@@ -0,0 +1,122 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { TaskService } from '../../../shared/services/task.service';
+import { NoosRerunService, NoosRerunSource } from '../../../shared/services/noos-rerun.service';
+import { Task } from '../../../shared/models/task.model';
+import { RUN_PARAMETERS, RUN_PARAMETER_LABELS, formatRunParameter, parseRecordedParameters } from '../../../shared/utils/recorded-parameters';
+
+/**
+ * One parameter of a re-run next to the value the original run used
+ */
+interface ParameterComparison {
+  label: string;
+  original: string;
+  current: string;
+  changed: boolean;
+}
+
+/**
+ * Side drawer with everything known about one task, plus cancel, retry and re-run actions
+ */
+@Component({
+  selector: 'app-task-detail',
+  templateUrl: './task-detail.component.html',
+  styleUrls: ['./task-detail.component.scss'],
+  standalone: true,
+  imports: [CommonModule, RouterModule]
+})
+export class TaskDetailComponent implements OnChanges {
+  @Input({ required: true }) task!: Task;
+  @Input() canCancel = false;
+  @Input() canRetry = false;
+  @Input() cancelling = false;
+  @Input() retrying = false;
+  @Input() rerunning = false;
+  @Input() duration = '—';
+  @Output() cancel = new EventEmitter<void>();
+  @Output() retry = new EventEmitter<void>();
+  @Output() openInParameters = new EventEmitter<NoosRerunSource>();
+  @Output() runAgain = new EventEmitter<NoosRerunSource>();
+  @Output() closed = new EventEmitter<void>();
+
+  /** This task as a re-run source, when it is a finished NOOS run with readable parameters */
+  rerunSource: NoosRerunSource | null = null;
+  /** The run this task repeats, when it was started as a re-run */
+  origin: NoosRerunSource | null = null;
+  comparison: ParameterComparison[] = [];
+
+  constructor(
+    private taskService: TaskService,
+    private noosRerunService: NoosRerunService
+  ) {}
+
+  ngOnChanges(): void {
+    this.rerunSource = this.noosRerunService.fromTask(this.task);
+    this.origin = this.noosRerunService.getOrigin(this.task.id);
+    this.comparison = this.origin ? this.compareWithOrigin(this.origin) : [];
+  }
+
+  /**
+   * Every run parameter of the original run next to this run's; this run's values come from its own record when it has one
+   */
+  private compareWithOrigin(origin: NoosRerunSource): ParameterComparison[] {
+    const current = parseRecordedParameters(this.task.parameters)?.parameters;
+    return RUN_PARAMETERS.map(parameter => {
+      const original = formatRunParameter(parameter, origin.parameters[parameter]);
+      const value = current ? formatRunParameter(parameter, current[parameter]) : '—';
+      return {
+        label: RUN_PARAMETER_LABELS[parameter],
+        original,
+        current: value,
+        changed: !!current && original !== value
+      };
+    });
+  }
+
+  get isActive(): boolean {
+    return this.task.status === 'PENDING' || this.task.status === 'RUNNING';
+  }
+
+  get isUpload(): boolean {
+    return this.task.taskType.startsWith('UPLOAD');
+  }
+
+  get resultUrl(): string | null {
+    return this.task.status === 'COMPLETED' ? this.taskService.getTaskResultUrl(this.task) : null;
+  }
+
+  /**
+   * Task parameters pretty-printed when they are JSON, as sent otherwise
+   */
+  get formattedParameters(): string {
+    if (!this.task.parameters) {
+      return '';
+    }
+    try {
+      return JSON.stringify(JSON.parse(this.task.parameters), null, 2);
+    } catch {
+      return this.task.parameters;
+    }
+  }
+
+  getStatusClass(status: string): string {
+    switch (status) {
+      case 'COMPLETED': return 'success';
+      case 'FAILED': return 'error';
+      case 'CANCELLED': return 'warning';
+      default: return 'primary';
+    }
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Get icon name for material icon
+   */
+  getIconName(materialIcon: string): string {
+    return materialIcon;
+  }
+}
@@ -0,0 +1,173 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Task, isTaskFinished } from '../../../shared/models/task.model';
+import {
+  TimelineBar, TimelineLane, TimelineTick, barsOverlap, getTaskInterval, layoutTimeline, timelineTicks
+} from '../../../shared/utils/timeline-layout';
+import { formatDuration } from '../../../shared/utils/transfer-rate';
+
+interface LanePosition {
+  lane: TimelineLane;
+  y: number;
+  height: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const MIN_SPAN = HOUR;
+const MAX_SPAN = 30 * 24 * HOUR;
+
+/**
+ * Gantt view of tasks over time, one swim-lane per task type. Bars open the task on click;
+ * hovering a bar fades everything that did not run at the same time.
+ */
+@Component({
+  selector: 'app-task-timeline',
+  templateUrl: './task-timeline.component.html',
+  styleUrls: ['./task-timeline.component.scss'],
+  standalone: true,
+  imports: [CommonModule]
+})
+export class TaskTimelineComponent implements OnChanges {
+  @Input({ required: true }) tasks: Task[] = [];
+  @Input() selectedTaskId: number | null = null;
+  @Output() taskSelected = new EventEmitter<Task>();
+
+  readonly presets = [
+    { label: '6 hours', span: 6 * HOUR },
+    { label: '24 hours', span: 24 * HOUR },
+    { label: '3 days', span: 3 * 24 * HOUR },
+    { label: '7 days', span: 7 * 24 * HOUR }
+  ];
+
+  // SVG user units; the chart scales to the card width
+  readonly width = 1000;
+  readonly labelWidth = 170;
+  readonly axisHeight = 28;
+  readonly rowHeight = 22;
+  readonly lanePadding = 6;
+
+  spanMs = 24 * HOUR;
+  windowEnd = Date.now();
+  /** Keep the window ending now as tasks update, until the user pans away */
+  followNow = true;
+
+  lanePositions: LanePosition[] = [];
+  ticks: TimelineTick[] = [];
+  height = this.axisHeight;
+  nowPosition: number | null = null;
+  hoveredBar: TimelineBar | null = null;
+
+  get windowStart(): number {
+    return this.windowEnd - this.spanMs;
+  }
+
+  ngOnChanges(): void {
+    this.layout();
+  }
+
+  setSpan(spanMs: number): void {
+    // Keep the middle of the window in place unless it is following now
+    this.windowEnd = this.followNow ? Date.now() : Math.min(Date.now(), this.windowEnd + (spanMs - this.spanMs) / 2);
+    this.spanMs = spanMs;
+    this.layout();
+  }
+
+  /**
+   * Halve (factor 0.5) or double (factor 2) the visible span around its middle
+   */
+  zoom(factor: number): void {
+    const spanMs = Math.min(MAX_SPAN, Math.max(MIN_SPAN, this.spanMs * factor));
+    this.setSpan(spanMs);
+  }
+
+  /**
+   * Move the window by half its span; moving back stops following now
+   */
+  pan(direction: -1 | 1): void {
+    const now = Date.now();
+    this.windowEnd = Math.min(now, this.windowEnd + direction * this.spanMs / 2);
+    this.followNow = this.windowEnd === now;
+    this.layout();
+  }
+
+  goToNow(): void {
+    this.followNow = true;
+    this.layout();
+  }
+
+  /**
+   * Fit the window to every task in the list
+   */
+  fitToTasks(): void {
+    const now = Date.now();
+    const intervals = this.tasks.map(task => getTaskInterval(task, now)).filter(interval => !isNaN(interval.start));
+    if (intervals.length === 0) {
+      return;
+    }
+    const start = Math.min(...intervals.map(interval => interval.start));
+    const end = Math.max(...intervals.map(interval => interval.end));
+    const margin = Math.max((end - start) * 0.05, 5 * 60 * 1000);
+    this.spanMs = Math.min(MAX_SPAN, Math.max(MIN_SPAN, end - start + 2 * margin));
+    this.windowEnd = Math.min(now, end + margin);
+    this.followNow = this.windowEnd === now;
+    this.layout();
+  }
+
+  private layout(): void {
+    const now = Date.now();
+    if (this.followNow) {
+      this.windowEnd = now;
+    }
+
+    let y = this.axisHeight;
+    this.lanePositions = layoutTimeline(this.tasks, this.windowStart, this.windowEnd, now).map(lane => {
+      const height = Math.max(1, lane.rows) * this.rowHeight + 2 * this.lanePadding;
+      const position = { lane, y, height };
+      y += height;
+      return position;
+    });
+    this.height = y;
+    this.ticks = timelineTicks(this.windowStart, this.windowEnd);
+    this.nowPosition = now >= this.windowStart && now <= this.windowEnd ? (now - this.windowStart) / this.spanMs : null;
+    this.hoveredBar = null;
+  }
+
+  x(position: number): number {
+    return this.labelWidth + position * (this.width - this.labelWidth);
+  }
+
+  barY(lane: LanePosition, bar: TimelineBar): number {
+    return lane.y + this.lanePadding + bar.row * this.rowHeight + 2;
+  }
+
+  /**
+   * Bar width, widened so that instant tasks stay visible and clickable
+   */
+  barWidth(bar: TimelineBar): number {
+    return Math.max(3, this.x(bar.end) - this.x(bar.start));
+  }
+
+  isDimmed(bar: TimelineBar): boolean {
+    return !!this.hoveredBar && this.hoveredBar !== bar && !barsOverlap(this.hoveredBar, bar);
+  }
+
+  getBarTitle(bar: TimelineBar): string {
+    const task = bar.task;
+    const { start, end } = getTaskInterval(task, Date.now());
+    const ran = task.endTime ? formatDuration((end - start) / 1000) : isTaskFinished(task) ? 'end time unknown' : 'still running';
+    return `#${task.id} ${task.taskType} · ${task.status}\n${new Date(start).toLocaleString()} · ${ran}`
+      + (task.fileName ? `\n${task.fileName}` : '')
+      + (task.errorMessage ? `\n${task.errorMessage}` : '');
+  }
+
+  getTickFormat(tick: TimelineTick): string {
+    return tick.isDate ? 'MMM d' : 'HH:mm';
+  }
+
+  /**
+   * Get icon name for material icon
+   */
+  getIconName(materialIcon: string): string {
+    return materialIcon;
+  }
+}
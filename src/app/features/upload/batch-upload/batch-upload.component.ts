@@ -0,0 +1,240 @@
+import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil } from 'rxjs';
+
+import { UploadService, UploadStatus, UPLOAD_ORDER } from '../../../shared/services/upload.service';
+import { UploadQueueService, UploadQueueItem, UploadQueueReport } from '../../../shared/services/upload-queue.service';
+import { FileAnalysisService } from '../../../shared/services/file-analysis.service';
+import { FileValidationResult } from '../../../shared/models/upload-schema.model';
+import { readFirstLine, splitTsvLine } from '../../../shared/utils/tsv-reader';
+import { detectFileType } from '../../../shared/utils/tsv-validator';
+import { ACCEPTED_UPLOAD_EXTENSIONS, isFileChanged, needsConversion } from '../../../shared/utils/file-conversion';
+import { describeTextFormat } from '../../../shared/utils/text-format';
+
+interface BatchEntry {
+  file: File;
+  fileType: string;
+  validating: boolean;
+  convertedFrom?: string;
+  reencodedFrom?: string;
+  validation?: FileValidationResult;
+  error?: string;
+}
+
+@Component({
+  selector: 'app-batch-upload',
+  templateUrl: './batch-upload.component.html',
+  styleUrls: ['./batch-upload.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule
+  ]
+})
+export class BatchUploadComponent implements OnInit, OnDestroy {
+  @Input() statusData: UploadStatus = {};
+  @Output() closed = new EventEmitter<void>();
+
+  readonly fileTypes = UPLOAD_ORDER;
+  readonly acceptedExtensions = ACCEPTED_UPLOAD_EXTENSIONS.join(',');
+  entries: BatchEntry[] = [];
+  queue: UploadQueueItem[] = [];
+  report: UploadQueueReport | null = null;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private uploadService: UploadService,
+    private uploadQueueService: UploadQueueService,
+    private fileAnalysisService: FileAnalysisService
+  ) {}
+
+  ngOnInit(): void {
+    this.uploadQueueService.queue$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(queue => this.queue = queue);
+    this.uploadQueueService.report$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(report => this.report = report);
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Add the selected files, detecting each one's type from its header
+   */
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+    input.value = '';
+
+    files.forEach(file => {
+      const entry: BatchEntry = { file, fileType: '', validating: false };
+      this.entries.push(entry);
+
+      if (!this.uploadService.isValidFileType(file)) {
+        entry.error = `Invalid file type. Please select a ${ACCEPTED_UPLOAD_EXTENSIONS.join(', ')} file.`;
+        return;
+      }
+
+      this.convertEntry(entry);
+    });
+  }
+
+  /**
+   * Re-validate an entry after the user changes its file type
+   */
+  onFileTypeChange(entry: BatchEntry): void {
+    entry.error = undefined;
+    entry.validation = undefined;
+    this.validateEntry(entry);
+  }
+
+  removeEntry(entry: BatchEntry): void {
+    this.entries = this.entries.filter(e => e !== entry);
+  }
+
+  /**
+   * Whether the batch is ready: every file typed, valid and no file type repeated
+   */
+  canStart(): boolean {
+    const types = this.entries.map(e => e.fileType);
+    return this.entries.length > 0
+      && !this.uploadQueueService.isRunning
+      && new Set(types).size === types.length
+      && this.entries.every(e => e.fileType && !e.validating && !e.error && e.validation?.valid);
+  }
+
+  isDuplicateType(entry: BatchEntry): boolean {
+    return !!entry.fileType && this.entries.filter(e => e.fileType === entry.fileType).length > 1;
+  }
+
+  startBatch(): void {
+    if (!this.canStart()) {
+      return;
+    }
+    this.uploadQueueService.start(
+      this.entries.map(e => ({ fileType: e.fileType, file: e.file })),
+      this.statusData
+    );
+    this.entries = [];
+  }
+
+  stopBatch(): void {
+    this.uploadQueueService.stop();
+  }
+
+  close(): void {
+    if (!this.uploadQueueService.isRunning) {
+      this.uploadQueueService.clear();
+    }
+    this.closed.emit();
+  }
+
+  get isRunning(): boolean {
+    return this.uploadQueueService.isRunning;
+  }
+
+  getFileTypeDisplayName(fileType: string): string {
+    return this.uploadService.getFileTypeDisplayName(fileType);
+  }
+
+  formatFileSize(bytes: number): string {
+    return this.uploadService.formatFileSize(bytes);
+  }
+
+  getQueueIcon(item: UploadQueueItem): string {
+    switch (item.status) {
+      case 'uploading': return 'schedule';
+      case 'completed': return 'check_circle';
+      case 'failed': return 'error';
+      case 'skipped': return 'block';
+      default: return 'hourglass_empty';
+    }
+  }
+
+  getIconName(materialIcon: string): string {
+    // Return Material Icon names directly - they will be styled by global CSS
+    return materialIcon;
+  }
+
+  /**
+   * Convert a CSV/XLSX/compressed entry to TSV and re-encode its text as UTF-8/LF, then detect its type
+   */
+  private convertEntry(entry: BatchEntry): void {
+    entry.validating = true;
+    this.fileAnalysisService.convertFile(entry.file)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (update) => {
+          if (update.result && update.converted && isFileChanged(update.converted)) {
+            if (needsConversion(entry.file.name)) {
+              entry.convertedFrom = entry.file.name;
+            }
+            if (update.converted.transcoded && update.converted.textFormat) {
+              entry.reencodedFrom = describeTextFormat(update.converted.textFormat);
+            }
+            entry.file = update.result;
+          }
+        },
+        error: (error) => {
+          entry.validating = false;
+          entry.error = `Could not convert file: ${error.message}`;
+        },
+        complete: () => {
+          entry.validating = false;
+          this.detectEntryType(entry);
+        }
+      });
+  }
+
+  /**
+   * Detect an entry's file type from its header, falling back to its name
+   */
+  private detectEntryType(entry: BatchEntry): void {
+    const file = entry.file;
+    readFirstLine(file)
+      .then(header => {
+        entry.fileType = detectFileType(splitTsvLine(header)) || this.detectFileTypeFromName(file.name) || '';
+        if (entry.fileType) {
+          this.validateEntry(entry);
+        } else {
+          entry.error = 'Could not detect the file type - please choose one';
+        }
+      })
+      .catch(error => entry.error = `Could not read file: ${error.message}`);
+  }
+
+  private validateEntry(entry: BatchEntry): void {
+    entry.validating = true;
+    this.fileAnalysisService.validateFile(entry.fileType, entry.file)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (update) => {
+          if (update.result) {
+            entry.validation = update.result;
+            if (!update.result.valid) {
+              entry.error = `${update.result.errorCount.toLocaleString()} problems found - ${update.result.errors[0]?.errorReason}`;
+            }
+          }
+        },
+        error: (error) => {
+          entry.validating = false;
+          entry.error = `Could not validate file: ${error.message}`;
+        },
+        complete: () => entry.validating = false
+      });
+  }
+
+  private detectFileTypeFromName(fileName: string): string | null {
+    const name = fileName.toLowerCase();
+    if (name.includes('sale')) return 'sales';
+    if (name.includes('sku')) return 'skus';
+    if (name.includes('store')) return 'stores';
+    if (name.includes('style')) return 'styles';
+    return null;
+  }
+}
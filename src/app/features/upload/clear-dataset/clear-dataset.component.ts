@@ -0,0 +1,95 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil } from 'rxjs';
+
+import { ClearImpact, UploadService, UploadStatus } from '../../../shared/services/upload.service';
+import { NotificationService } from '../../../shared/services/notification.service';
+
+/**
+ * Confirmation dialog for clearing one dataset and everything that depends on it
+ */
+@Component({
+  selector: 'app-clear-dataset',
+  templateUrl: './clear-dataset.component.html',
+  styleUrls: ['./clear-dataset.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule
+  ]
+})
+export class ClearDatasetComponent implements OnChanges, OnDestroy {
+  @Input({ required: true }) fileType!: string;
+  @Input({ required: true }) statusData!: UploadStatus;
+  @Output() closed = new EventEmitter<void>();
+  @Output() cleared = new EventEmitter<ClearImpact>();
+
+  impact: ClearImpact | null = null;
+  confirmationText = '';
+  isClearing = false;
+  errorMessage = '';
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private uploadService: UploadService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnChanges(): void {
+    this.impact = this.uploadService.getClearImpact(this.fileType, this.statusData);
+    this.confirmationText = '';
+    this.errorMessage = '';
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * The user has to type the dataset name before it can be cleared
+   */
+  get isConfirmed(): boolean {
+    return this.confirmationText.trim().toLowerCase() === this.fileType;
+  }
+
+  clear(): void {
+    if (!this.impact || !this.isConfirmed || this.isClearing) {
+      return;
+    }
+
+    const impact = this.impact;
+    this.isClearing = true;
+    this.errorMessage = '';
+    this.uploadService.clearDataset(this.fileType)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.isClearing = false;
+          const clearedTypes = impact.datasets.map(dataset => dataset.fileType).join(', ');
+          this.notificationService.success(
+            'Data Cleared',
+            `Removed ${impact.totalRecords.toLocaleString()} records (${clearedTypes || this.fileType})`
+          );
+          this.cleared.emit(impact);
+        },
+        error: (error) => {
+          console.error(`Error clearing ${this.fileType} data:`, error);
+          this.isClearing = false;
+          this.errorMessage = `Could not clear ${this.fileType} data: ${error.message}`;
+        }
+      });
+  }
+
+  close(): void {
+    if (!this.isClearing) {
+      this.closed.emit();
+    }
+  }
+
+  getIconName(materialIcon: string): string {
+    // Return Material Icon names directly - they will be styled by global CSS
+    return materialIcon;
+  }
+}
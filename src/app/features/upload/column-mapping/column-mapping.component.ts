@@ -0,0 +1,133 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ColumnMappingService } from '../../../shared/services/column-mapping.service';
+import { NotificationService } from '../../../shared/services/notification.service';
+import {
+  ColumnMapping,
+  ColumnMappingTemplate,
+  ColumnSchema,
+  FilePreview,
+  UPLOAD_SCHEMAS
+} from '../../../shared/models/upload-schema.model';
+
+/**
+ * Map the headers of a client file onto the columns the backend expects for a file type
+ */
+@Component({
+  selector: 'app-column-mapping',
+  templateUrl: './column-mapping.component.html',
+  styleUrls: ['./column-mapping.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule
+  ]
+})
+export class ColumnMappingComponent implements OnChanges {
+  @Input({ required: true }) fileType!: string;
+  @Input({ required: true }) preview!: FilePreview;
+  @Input() disabled = false;
+  @Output() applied = new EventEmitter<ColumnMapping>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  columns: ColumnSchema[] = [];
+  mapping: ColumnMapping = {};
+  scores: { [column: string]: number } = {};
+  templates: ColumnMappingTemplate[] = [];
+  selectedTemplateId = '';
+  clientName = '';
+
+  constructor(
+    private columnMappingService: ColumnMappingService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnChanges(): void {
+    this.columns = UPLOAD_SCHEMAS[this.fileType]?.columns || [];
+    this.templates = this.columnMappingService.getTemplates(this.fileType);
+    this.selectedTemplateId = '';
+    this.applySuggestions();
+  }
+
+  /**
+   * Fill the mapping from fuzzy header matches
+   */
+  applySuggestions(): void {
+    this.mapping = {};
+    this.scores = {};
+    this.columnMappingService.suggestMapping(this.fileType, this.preview.headers).forEach(suggestion => {
+      this.mapping[suggestion.targetColumn] = suggestion.sourceHeader;
+      this.scores[suggestion.targetColumn] = suggestion.score;
+    });
+  }
+
+  onTemplateChange(): void {
+    const template = this.templates.find(t => t.id === this.selectedTemplateId);
+    if (!template) {
+      this.applySuggestions();
+      return;
+    }
+    this.mapping = this.columnMappingService.applyTemplate(template, this.preview.headers);
+    this.scores = {};
+    this.clientName = template.client;
+  }
+
+  onMappingChange(column: string): void {
+    delete this.scores[column];
+  }
+
+  saveTemplate(): void {
+    if (!this.clientName.trim()) {
+      return;
+    }
+    const template = this.columnMappingService.saveTemplate(this.clientName, this.fileType, this.mapping);
+    this.templates = this.columnMappingService.getTemplates(this.fileType);
+    this.selectedTemplateId = template.id;
+    this.notificationService.success('Template Saved', `Column mapping saved for ${template.client}`);
+  }
+
+  deleteTemplate(): void {
+    const template = this.templates.find(t => t.id === this.selectedTemplateId);
+    if (template && confirm(`Delete the ${template.client} mapping template?`)) {
+      this.columnMappingService.deleteTemplate(template.id);
+      this.templates = this.columnMappingService.getTemplates(this.fileType);
+      this.selectedTemplateId = '';
+    }
+  }
+
+  /**
+   * First preview value of the header a column is mapped to
+   */
+  getSampleValue(column: string): string {
+    const source = this.mapping[column];
+    const index = source ? this.preview.headers.indexOf(source) : -1;
+    return index >= 0 ? this.preview.rows[0]?.[index] ?? '' : '';
+  }
+
+  /**
+   * Source headers picked for more than one column
+   */
+  getDuplicateSources(): string[] {
+    const sources = Object.values(this.mapping).filter((source): source is string => !!source);
+    return sources.filter((source, index) => sources.indexOf(source) !== index);
+  }
+
+  getUnmappedRequired(): string[] {
+    return this.columns.filter(column => column.required && !this.mapping[column.name]).map(column => column.name);
+  }
+
+  canApply(): boolean {
+    return !this.disabled && this.getUnmappedRequired().length === 0;
+  }
+
+  apply(): void {
+    if (!this.canApply()) {
+      return;
+    }
+    if (this.selectedTemplateId) {
+      this.columnMappingService.touchTemplate(this.selectedTemplateId);
+    }
+    this.applied.emit({ ...this.mapping });
+  }
+}
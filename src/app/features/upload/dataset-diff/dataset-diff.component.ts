@@ -0,0 +1,58 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DatasetDiff, DatasetRowChange } from '../../../shared/models/upload-schema.model';
+
+export type DatasetDiffSection = 'changed' | 'added' | 'removed';
+
+@Component({
+  selector: 'app-dataset-diff',
+  templateUrl: './dataset-diff.component.html',
+  styleUrls: ['./dataset-diff.component.scss'],
+  standalone: true,
+  imports: [CommonModule]
+})
+export class DatasetDiffComponent implements OnChanges {
+  @Input({ required: true }) diff!: DatasetDiff;
+
+  section: DatasetDiffSection = 'changed';
+
+  ngOnChanges(): void {
+    // Open the first section that has something in it
+    const sections: DatasetDiffSection[] = ['changed', 'added', 'removed'];
+    this.section = sections.find(section => this.getCount(section) > 0) || 'changed';
+  }
+
+  get hasDifferences(): boolean {
+    return this.diff.addedCount + this.diff.removedCount + this.diff.changedCount > 0;
+  }
+
+  getCount(section: DatasetDiffSection): number {
+    switch (section) {
+      case 'added':
+        return this.diff.addedCount;
+      case 'removed':
+        return this.diff.removedCount;
+      default:
+        return this.diff.changedCount;
+    }
+  }
+
+  /**
+   * Sample rows shown for the added or removed section
+   */
+  getRows(section: DatasetDiffSection): string[][] {
+    return section === 'added' ? this.diff.added : this.diff.removed;
+  }
+
+  getShownCount(section: DatasetDiffSection): number {
+    return section === 'changed' ? this.diff.changed.length : this.getRows(section).length;
+  }
+
+  isChanged(change: DatasetRowChange, column: number): boolean {
+    return change.changedColumns.includes(column);
+  }
+
+  selectSection(section: DatasetDiffSection): void {
+    this.section = section;
+  }
+}
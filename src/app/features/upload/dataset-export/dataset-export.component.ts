@@ -0,0 +1,144 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+
+import { DatasetExportService, ExportProgress, ExportTarget } from '../../../shared/services/dataset-export.service';
+import { UploadService } from '../../../shared/services/upload.service';
+import { EXPORT_FORMATS, ExportFilter, ExportFilterOperator, ExportFormat } from '../../../shared/models/export.model';
+import { UPLOAD_SCHEMAS } from '../../../shared/models/upload-schema.model';
+
+/**
+ * Export dialog for one dataset: format, columns and row filters
+ */
+@Component({
+  selector: 'app-dataset-export',
+  templateUrl: './dataset-export.component.html',
+  styleUrls: ['./dataset-export.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule
+  ]
+})
+export class DatasetExportComponent implements OnChanges, OnDestroy {
+  @Input({ required: true }) fileType!: string;
+  @Output() closed = new EventEmitter<void>();
+
+  readonly formats = EXPORT_FORMATS;
+  readonly operators: { operator: ExportFilterOperator; label: string }[] = [
+    { operator: 'equals', label: 'equals' },
+    { operator: 'not_equals', label: 'does not equal' },
+    { operator: 'contains', label: 'contains' },
+    { operator: 'gte', label: 'is at least' },
+    { operator: 'lte', label: 'is at most' }
+  ];
+
+  format: ExportFormat = 'tsv';
+  columns: { name: string; selected: boolean }[] = [];
+  filters: ExportFilter[] = [];
+
+  isExporting = false;
+  exportProgress: ExportProgress | null = null;
+  errorMessage = '';
+  private exportSubscription?: Subscription;
+
+  constructor(
+    private datasetExportService: DatasetExportService,
+    private uploadService: UploadService
+  ) {}
+
+  ngOnChanges(): void {
+    this.columns = (UPLOAD_SCHEMAS[this.fileType]?.columns || []).map(column => ({ name: column.name, selected: true }));
+    this.filters = [];
+  }
+
+  ngOnDestroy(): void {
+    this.exportSubscription?.unsubscribe();
+  }
+
+  get canStreamToDisk(): boolean {
+    return this.datasetExportService.canStreamToDisk;
+  }
+
+  get selectedColumns(): string[] {
+    return this.columns.filter(column => column.selected).map(column => column.name);
+  }
+
+  get canExport(): boolean {
+    return !this.isExporting && this.selectedColumns.length > 0 && this.filters.every(filter => filter.column);
+  }
+
+  setAllColumns(selected: boolean): void {
+    this.columns.forEach(column => column.selected = selected);
+  }
+
+  addFilter(): void {
+    this.filters.push({ column: this.columns[0]?.name || '', operator: 'equals', value: '' });
+  }
+
+  removeFilter(index: number): void {
+    this.filters.splice(index, 1);
+  }
+
+  /**
+   * Pick the destination (while the click still counts as a user gesture), then stream the export into it
+   */
+  async startExport(): Promise<void> {
+    if (!this.canExport) {
+      return;
+    }
+
+    this.errorMessage = '';
+    let target: ExportTarget | null;
+    try {
+      target = await this.datasetExportService.chooseTarget(this.fileType, this.format);
+    } catch (error) {
+      console.error('Could not open the export file:', error);
+      this.errorMessage = `Could not open the export file: ${error instanceof Error ? error.message : error}`;
+      return;
+    }
+    if (!target) {
+      return;
+    }
+
+    const options = { format: this.format, columns: this.selectedColumns, filters: this.filters.map(filter => ({ ...filter })) };
+    this.isExporting = true;
+    this.exportProgress = { stage: 'preparing', progress: 0, bytesWritten: 0 };
+    this.exportSubscription = this.datasetExportService.exportDataset(this.fileType, options, target).subscribe({
+      next: (progress) => {
+        this.exportProgress = progress;
+      },
+      error: (error) => {
+        console.error('Export error:', error);
+        this.isExporting = false;
+        this.exportProgress = null;
+        this.errorMessage = `Export failed: ${error.message}`;
+      },
+      complete: () => {
+        this.isExporting = false;
+      }
+    });
+  }
+
+  cancelExport(): void {
+    this.exportSubscription?.unsubscribe();
+    this.exportSubscription = undefined;
+    this.isExporting = false;
+    this.exportProgress = null;
+  }
+
+  close(): void {
+    this.cancelExport();
+    this.closed.emit();
+  }
+
+  formatFileSize(bytes: number): string {
+    return this.uploadService.formatFileSize(bytes);
+  }
+
+  getIconName(materialIcon: string): string {
+    // Return Material Icon names directly - they will be styled by global CSS
+    return materialIcon;
+  }
+}
@@ -0,0 +1,84 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+
+import { DatasetProfileService, ProfileProgress } from '../../../shared/services/dataset-profile.service';
+import { ColumnProfile, DatasetProfile } from '../../../shared/models/upload-schema.model';
+
+/**
+ * Column statistics of a loaded dataset: nulls, distinct values, numeric ranges, date coverage and top values
+ */
+@Component({
+  selector: 'app-dataset-profile',
+  templateUrl: './dataset-profile.component.html',
+  styleUrls: ['./dataset-profile.component.scss'],
+  standalone: true,
+  imports: [CommonModule]
+})
+export class DatasetProfileComponent implements OnChanges, OnDestroy {
+  @Input({ required: true }) fileType!: string;
+  @Output() closed = new EventEmitter<void>();
+
+  profile: DatasetProfile | null = null;
+  progress: ProfileProgress | null = null;
+  errorMessage = '';
+  private profileSubscription?: Subscription;
+
+  constructor(private datasetProfileService: DatasetProfileService) {}
+
+  ngOnChanges(): void {
+    this.loadProfile();
+  }
+
+  ngOnDestroy(): void {
+    this.profileSubscription?.unsubscribe();
+  }
+
+  get isLoading(): boolean {
+    return !!this.progress && this.progress.stage !== 'done';
+  }
+
+  get columnsWithTopValues(): ColumnProfile[] {
+    return this.profile?.columns.filter(column => column.topValues?.length) || [];
+  }
+
+  /**
+   * Load the cached profile, or recompute it when the data changed or a refresh is asked for
+   */
+  loadProfile(forceRefresh: boolean = false): void {
+    this.profileSubscription?.unsubscribe();
+    this.errorMessage = '';
+    this.progress = { stage: 'downloading', progress: 0 };
+
+    this.profileSubscription = this.datasetProfileService.getProfile(this.fileType, forceRefresh).subscribe({
+      next: (progress) => {
+        this.progress = progress;
+        if (progress.profile) {
+          this.profile = progress.profile;
+        }
+      },
+      error: (error) => {
+        console.error('Profiling error:', error);
+        this.progress = null;
+        this.errorMessage = `Could not profile ${this.fileType}: ${error.message}`;
+      }
+    });
+  }
+
+  getNullPercentage(column: ColumnProfile): number {
+    return this.profile?.rowCount ? (column.nullCount / this.profile.rowCount) * 100 : 0;
+  }
+
+  getTopValuePercentage(count: number): number {
+    return this.profile?.rowCount ? (count / this.profile.rowCount) * 100 : 0;
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  getIconName(materialIcon: string): string {
+    // Return Material Icon names directly - they will be styled by global CSS
+    return materialIcon;
+  }
+}
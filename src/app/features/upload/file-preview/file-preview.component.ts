@@ -0,0 +1,45 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FilePreview } from '../../../shared/models/upload-schema.model';
+
+@Component({
+  selector: 'app-file-preview',
+  templateUrl: './file-preview.component.html',
+  styleUrls: ['./file-preview.component.scss'],
+  standalone: true,
+  imports: [CommonModule]
+})
+export class FilePreviewComponent implements OnChanges {
+  @Input({ required: true }) preview!: FilePreview;
+  @Input() pageSize = 25;
+
+  page = 0;
+
+  ngOnChanges(): void {
+    this.page = 0;
+  }
+
+  get pageCount(): number {
+    return Math.max(1, Math.ceil(this.preview.rows.length / this.pageSize));
+  }
+
+  get pageRows(): string[][] {
+    const start = this.page * this.pageSize;
+    return this.preview.rows.slice(start, start + this.pageSize);
+  }
+
+  /**
+   * Row number in the file (header is line 1) for a row on the current page
+   */
+  getRowNumber(index: number): number {
+    return this.page * this.pageSize + index + 2;
+  }
+
+  previousPage(): void {
+    this.page = Math.max(0, this.page - 1);
+  }
+
+  nextPage(): void {
+    this.page = Math.min(this.pageCount - 1, this.page + 1);
+  }
+}
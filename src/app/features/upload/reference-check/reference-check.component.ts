@@ -0,0 +1,21 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { OrphanReferenceSummary, ReferenceCheckResult } from '../../../shared/models/upload-schema.model';
+
+@Component({
+  selector: 'app-reference-check',
+  templateUrl: './reference-check.component.html',
+  styleUrls: ['./reference-check.component.scss'],
+  standalone: true,
+  imports: [CommonModule]
+})
+export class ReferenceCheckComponent {
+  @Input({ required: true }) result!: ReferenceCheckResult;
+
+  /**
+   * References with at least one missing value
+   */
+  get brokenReferences(): OrphanReferenceSummary[] {
+    return this.result.references.filter(reference => reference.orphanRowCount > 0);
+  }
+}
@@ -0,0 +1,128 @@
+import { Component, EventEmitter, OnDestroy, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subscription } from 'rxjs';
+
+import { FileAnalysisService } from '../../../shared/services/file-analysis.service';
+import { UploadService, UPLOAD_ORDER } from '../../../shared/services/upload.service';
+import { SampleDatasetOptions } from '../../../shared/models/upload-schema.model';
+
+/**
+ * Generates a consistent set of styles, stores, skus and sales files for trying out the upload → NOOS pipeline
+ */
+@Component({
+  selector: 'app-sample-data',
+  templateUrl: './sample-data.component.html',
+  styleUrls: ['./sample-data.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule
+  ]
+})
+export class SampleDataComponent implements OnDestroy {
+  @Output() closed = new EventEmitter<void>();
+  @Output() uploadRequested = new EventEmitter<{ fileType: string; file: File }[]>();
+
+  options: SampleDatasetOptions = {
+    styles: 200,
+    sizesPerStyle: 4,
+    stores: 20,
+    days: 90,
+    salesPerDay: 500,
+    startDate: new Date(Date.now() - 90 * 86400000).toISOString().slice(0, 10),
+    seed: 1
+  };
+
+  isGenerating = false;
+  progress = 0;
+  files: { fileType: string; file: File }[] = [];
+  errorMessage = '';
+  private generateSubscription?: Subscription;
+
+  constructor(
+    private fileAnalysisService: FileAnalysisService,
+    private uploadService: UploadService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.generateSubscription?.unsubscribe();
+  }
+
+  get estimatedSkus(): number {
+    return this.options.styles * this.options.sizesPerStyle;
+  }
+
+  get estimatedSalesRows(): number {
+    return this.options.days * Math.min(this.options.salesPerDay, this.estimatedSkus * this.options.stores);
+  }
+
+  get isValid(): boolean {
+    const { styles, sizesPerStyle, stores, days, salesPerDay, startDate } = this.options;
+    return [styles, sizesPerStyle, stores, days, salesPerDay].every(value => Number.isInteger(value) && value > 0)
+      && sizesPerStyle <= 6
+      && !isNaN(Date.parse(startDate));
+  }
+
+  generate(): void {
+    if (!this.isValid || this.isGenerating) {
+      return;
+    }
+
+    this.files = [];
+    this.errorMessage = '';
+    this.isGenerating = true;
+    this.progress = 0;
+    this.generateSubscription = this.fileAnalysisService.generateSampleDataset({ ...this.options })
+      .subscribe({
+        next: (update) => {
+          this.progress = update.progress;
+          if (update.result) {
+            const result = update.result;
+            this.files = UPLOAD_ORDER
+              .filter(fileType => result[fileType])
+              .map(fileType => ({ fileType, file: result[fileType] }));
+          }
+        },
+        error: (error) => {
+          console.error('Sample data generation error:', error);
+          this.isGenerating = false;
+          this.errorMessage = `Could not generate sample data: ${error.message}`;
+        },
+        complete: () => {
+          this.isGenerating = false;
+        }
+      });
+  }
+
+  download(entry: { fileType: string; file: File }): void {
+    this.uploadService.triggerDownload(entry.file, entry.file.name);
+  }
+
+  downloadAll(): void {
+    this.files.forEach(entry => this.download(entry));
+  }
+
+  /**
+   * Hand the generated files to the batch upload queue
+   */
+  uploadAll(): void {
+    if (this.files.length > 0) {
+      this.uploadRequested.emit(this.files);
+    }
+  }
+
+  close(): void {
+    this.generateSubscription?.unsubscribe();
+    this.closed.emit();
+  }
+
+  formatFileSize(bytes: number): string {
+    return this.uploadService.formatFileSize(bytes);
+  }
+
+  getIconName(materialIcon: string): string {
+    // Return Material Icon names directly - they will be styled by global CSS
+    return materialIcon;
+  }
+}
@@ -0,0 +1,195 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { Subject, Subscription, takeUntil } from 'rxjs';
+import { UploadService } from '../../../shared/services/upload.service';
+import { ErrorReport, ErrorReportFilters, ErrorSummary } from '../../../shared/models/upload-error.model';
+import { Task } from '../../../shared/models/task.model';
+import { NotificationService } from '../../../shared/services/notification.service';
+
+/**
+ * Browse the validation errors of a failed upload task with server-side paging and filters
+ */
+@Component({
+  selector: 'app-upload-errors',
+  templateUrl: './upload-errors.component.html',
+  styleUrls: ['./upload-errors.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterModule
+  ]
+})
+export class UploadErrorsComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+  private reportSubscription?: Subscription;
+
+  readonly pageSizes = [25, 50, 100, 200];
+
+  taskId = 0;
+  task: Task | null = null;
+  summary: ErrorSummary | null = null;
+  report: ErrorReport | null = null;
+  filters: ErrorReportFilters = { errorType: '', fieldName: '' };
+  page = 0;
+  pageSize = 50;
+  isLoading = false;
+  isLoadingSummary = false;
+  lastRefreshTime = new Date();
+
+  constructor(
+    private route: ActivatedRoute,
+    private uploadService: UploadService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.route.paramMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        this.taskId = Number(params.get('taskId'));
+        this.filters = { errorType: '', fieldName: '' };
+        this.page = 0;
+        this.refresh();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.reportSubscription?.unsubscribe();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Reload the task, the error summary and the current page
+   */
+  refresh(): void {
+    this.loadTask();
+    this.loadSummary();
+    this.loadErrors();
+  }
+
+  private loadTask(): void {
+    this.uploadService.getTaskStatus(this.taskId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (task) => this.task = task,
+        error: (error) => console.error('Error loading task:', error)
+      });
+  }
+
+  private loadSummary(): void {
+    this.isLoadingSummary = true;
+    this.uploadService.getErrorSummary(this.taskId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (summary) => {
+          this.summary = summary;
+          this.isLoadingSummary = false;
+        },
+        error: (error) => {
+          console.error('Error loading error summary:', error);
+          this.isLoadingSummary = false;
+        }
+      });
+  }
+
+  /**
+   * Fetch the current page of errors; a newer request replaces any still in flight
+   */
+  loadErrors(): void {
+    this.reportSubscription?.unsubscribe();
+    this.isLoading = true;
+    this.reportSubscription = this.uploadService.getErrorReport(this.taskId, this.page, this.pageSize, this.filters)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (report) => {
+          this.report = report;
+          this.isLoading = false;
+          this.lastRefreshTime = new Date();
+        },
+        error: (error) => {
+          console.error('Error loading error report:', error);
+          this.isLoading = false;
+          this.notificationService.error('Load Failed', `Failed to load errors for task #${this.taskId}`);
+        }
+      });
+  }
+
+  /**
+   * Apply the filter selects and go back to the first page
+   */
+  applyFilters(): void {
+    this.page = 0;
+    this.loadErrors();
+  }
+
+  clearFilters(): void {
+    this.filters = { errorType: '', fieldName: '' };
+    this.applyFilters();
+  }
+
+  /**
+   * Narrow the list down to one of the top error reasons
+   */
+  filterByReason(reason: ErrorSummary['topReasons'][number]): void {
+    this.filters = { errorType: reason.errorType, fieldName: reason.fieldName || '' };
+    this.applyFilters();
+  }
+
+  hasActiveFilters(): boolean {
+    return !!this.filters.errorType || !!this.filters.fieldName;
+  }
+
+  goToPage(page: number): void {
+    if (!this.report || page < 0 || page >= this.report.totalPages || page === this.page) {
+      return;
+    }
+    this.page = page;
+    this.loadErrors();
+  }
+
+  onPageSizeChange(): void {
+    this.page = 0;
+    this.loadErrors();
+  }
+
+  /**
+   * Index range of the rows shown on the current page, e.g. "51–100"
+   */
+  getPageRange(): string {
+    if (!this.report || this.report.errors.length === 0) {
+      return '0';
+    }
+    const start = this.report.page * this.report.size + 1;
+    return `${start.toLocaleString()}–${(start + this.report.errors.length - 1).toLocaleString()}`;
+  }
+
+  /**
+   * Share of all errors a summary bucket accounts for, for the bar widths
+   */
+  getShare(count: number): number {
+    return this.summary && this.summary.totalCount > 0 ? (count / this.summary.totalCount) * 100 : 0;
+  }
+
+  downloadValidationReport(): void {
+    this.uploadService.downloadValidationReport(this.taskId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (blob) => this.uploadService.triggerDownload(blob, `validation_report_task_${this.taskId}.tsv`),
+        error: (error) => {
+          console.error('Download validation report error:', error);
+          this.notificationService.error('Download Failed', 'Failed to download validation report');
+        }
+      });
+  }
+
+  /**
+   * Get icon name for material icon
+   */
+  getIconName(materialIcon: string): string {
+    return materialIcon;
+  }
+}
@@ -0,0 +1,287 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { Subject, Subscription, forkJoin, from, switchMap, takeUntil } from 'rxjs';
+import { UploadService } from '../../../shared/services/upload.service';
+import { ValidationError } from '../../../shared/models/upload-error.model';
+import { UploadManagerService } from '../../../shared/services/upload-manager.service';
+import { Task } from '../../../shared/models/task.model';
+import { NotificationService } from '../../../shared/services/notification.service';
+import { FileSchema, FileValidationError, UPLOAD_SCHEMAS } from '../../../shared/models/upload-schema.model';
+import { normalizeHeader, splitTsvLine } from '../../../shared/utils/tsv-reader';
+import { TsvValidator } from '../../../shared/utils/tsv-validator';
+
+/**
+ * Most rejected rows loaded into the editor; larger reports are fixed via the downloaded TSV
+ */
+const MAX_EDITABLE_ERRORS = 1000;
+
+/**
+ * Column in the skipped-records file holding each row's line number in the original upload
+ */
+const ROW_NUMBER_COLUMN = 'row_number';
+
+interface RejectedRow {
+  rowNumber: number;
+  original: string[];
+  values: string[];
+  errors: ValidationError[];
+  // Columns the backend flagged; only these are editable
+  editableColumns: Set<number>;
+  remainingErrors: FileValidationError[];
+  include: boolean;
+}
+
+/**
+ * Edit the rows an upload rejected and resubmit just those rows as an append upload
+ */
+@Component({
+  selector: 'app-upload-fix',
+  templateUrl: './upload-fix.component.html',
+  styleUrls: ['./upload-fix.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterModule
+  ]
+})
+export class UploadFixComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+  private resubmitSubscription?: Subscription;
+
+  readonly maxEditableErrors = MAX_EDITABLE_ERRORS;
+
+  taskId = 0;
+  task: Task | null = null;
+  fileType: string | null = null;
+  headers: string[] = [];
+  rows: RejectedRow[] = [];
+  totalErrorCount = 0;
+  isLoading = false;
+  loadError = '';
+  isResubmitting = false;
+  resubmitProgress = 0;
+  resubmitMessage = '';
+
+  private schema: FileSchema | null = null;
+
+  constructor(
+    private route: ActivatedRoute,
+    private router: Router,
+    private uploadService: UploadService,
+    private uploadManagerService: UploadManagerService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.route.paramMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(params => {
+        this.taskId = Number(params.get('taskId'));
+        this.loadRejectedRows();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.resubmitSubscription?.unsubscribe();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Load the task, its validation errors and the skipped records, and pair them up by row number
+   */
+  loadRejectedRows(): void {
+    this.isLoading = true;
+    this.loadError = '';
+    this.rows = [];
+
+    this.uploadService.getTaskStatus(this.taskId)
+      .pipe(
+        switchMap(task => {
+          this.task = task;
+          this.fileType = this.uploadService.getFileTypeForTask(task.taskType);
+          this.schema = this.fileType ? UPLOAD_SCHEMAS[this.fileType] : null;
+          if (!this.schema) {
+            throw new Error(`Task #${task.id} is not a data upload`);
+          }
+
+          return forkJoin({
+            report: this.uploadService.getErrorReport(this.taskId, 0, MAX_EDITABLE_ERRORS),
+            skipped: this.uploadService.downloadSkippedRecords(this.taskId).pipe(
+              switchMap(blob => from(blob.text()))
+            )
+          });
+        }),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: ({ report, skipped }) => {
+          this.totalErrorCount = report.totalCount;
+          this.buildRows(report.errors, skipped);
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Error loading rejected rows:', error);
+          this.loadError = error.message || 'Failed to load rejected rows';
+          this.isLoading = false;
+        }
+      });
+  }
+
+  /**
+   * Pair skipped records with their errors through the row_number column. Without it records cannot be
+   * matched to errors reliably, so nothing is offered for editing.
+   */
+  private buildRows(errors: ValidationError[], skippedText: string): void {
+    const lines = skippedText.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (lines.length === 0) {
+      this.loadError = 'No skipped records were saved for this task';
+      return;
+    }
+
+    const fileHeaders = splitTsvLine(lines[0]);
+    const rowNumberIndex = fileHeaders.map(normalizeHeader).indexOf(ROW_NUMBER_COLUMN);
+    if (rowNumberIndex < 0) {
+      this.loadError = `The skipped records of this task have no ${ROW_NUMBER_COLUMN} column, so they cannot be matched to their errors. `
+        + 'Download the validation report from the errors page and fix the rows in the original file instead.';
+      return;
+    }
+    this.headers = fileHeaders.filter((_, index) => index !== rowNumberIndex);
+
+    const errorsByRow = new Map<number, ValidationError[]>();
+    errors.forEach(error => {
+      errorsByRow.set(error.rowNumber, [...(errorsByRow.get(error.rowNumber) || []), error]);
+    });
+    const columnIndexes = new Map(this.headers.map((header, index) => [normalizeHeader(header), index]));
+
+    lines.slice(1).forEach(line => {
+      const fields = splitTsvLine(line);
+      const rowNumber = Number(fields[rowNumberIndex]);
+      const rowErrors = errorsByRow.get(rowNumber);
+      if (!rowErrors) {
+        return; // Beyond the loaded page of errors
+      }
+
+      const values = fields.filter((_, i) => i !== rowNumberIndex);
+      const editableColumns = new Set(
+        rowErrors
+          .map(error => error.fieldName ? columnIndexes.get(normalizeHeader(error.fieldName)) : undefined)
+          .filter((columnIndex): columnIndex is number => columnIndex !== undefined)
+      );
+
+      const row: RejectedRow = {
+        rowNumber,
+        original: [...values],
+        values,
+        errors: rowErrors,
+        editableColumns,
+        remainingErrors: [],
+        include: editableColumns.size > 0
+      };
+      this.recheckRow(row);
+      this.rows.push(row);
+    });
+  }
+
+  /**
+   * Re-run the client-side checks on an edited row
+   */
+  recheckRow(row: RejectedRow): void {
+    if (!this.schema) {
+      return;
+    }
+    const validator = new TsvValidator(this.schema, 20);
+    validator.acceptHeader(this.headers);
+    validator.acceptRow(row.values.map(value => value.trim()), row.rowNumber);
+    row.remainingErrors = validator.getResult().errors.filter(error => error.errorType !== 'MISSING_COLUMN');
+  }
+
+  onValueChange(row: RejectedRow): void {
+    this.recheckRow(row);
+  }
+
+  /**
+   * Put a row back to the values it was rejected with
+   */
+  resetRow(row: RejectedRow): void {
+    row.values = [...row.original];
+    this.recheckRow(row);
+  }
+
+  isEdited(row: RejectedRow, column: number): boolean {
+    return row.values[column] !== row.original[column];
+  }
+
+  getIncludedRows(): RejectedRow[] {
+    return this.rows.filter(row => row.include);
+  }
+
+  getFixedCount(): number {
+    return this.getIncludedRows().filter(row => row.remainingErrors.length === 0).length;
+  }
+
+  /**
+   * Rows can be resubmitted once every included row passes the client-side checks
+   */
+  canResubmit(): boolean {
+    const included = this.getIncludedRows();
+    return !this.isResubmitting && included.length > 0 && included.every(row => row.remainingErrors.length === 0);
+  }
+
+  /**
+   * Upload the corrected rows as an append to the dataset, linked to the original task.
+   * The upload manager runs it, so leaving the page does not stop it.
+   */
+  resubmit(): void {
+    if (!this.canResubmit() || !this.fileType) {
+      return;
+    }
+
+    const included = this.getIncludedRows();
+    const lines = [this.headers, ...included.map(row => row.values.map(value => value.trim()))]
+      .map(fields => fields.join('\t'));
+    const file = new File([lines.join('\n') + '\n'], `${this.fileType}_fixes_task_${this.taskId}.tsv`, {
+      type: 'text/tab-separated-values'
+    });
+
+    const fileType = this.fileType;
+    const upload$ = this.uploadManagerService.startUpload(fileType, file, { mode: 'append', parentTaskId: this.taskId });
+    if (!upload$) {
+      this.notificationService.error('Resubmit Failed', `An upload of ${fileType} is already in progress`);
+      return;
+    }
+
+    this.isResubmitting = true;
+    this.resubmitProgress = 0;
+    this.resubmitMessage = 'Starting upload...';
+
+    // The manager reports completion and failure; this only follows the upload while the page is open
+    this.resubmitSubscription = upload$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(upload => {
+        this.resubmitProgress = upload.progress;
+        this.resubmitMessage = upload.message || '';
+
+        if (upload.status === 'completed') {
+          this.isResubmitting = false;
+          this.router.navigate(['/upload']);
+        } else if (upload.status === 'failed' || upload.status === 'cancelled') {
+          this.isResubmitting = false;
+          this.resubmitMessage = '';
+          if (upload.status === 'failed' && upload.taskId) {
+            this.router.navigate(['/upload/errors', upload.taskId]);
+          }
+        }
+      });
+  }
+
+  /**
+   * Get icon name for material icon
+   */
+  getIconName(materialIcon: string): string {
+    return materialIcon;
+  }
+}
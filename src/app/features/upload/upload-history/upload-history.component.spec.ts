@@ -0,0 +1,51 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { UploadHistoryComponent } from './upload-history.component';
+import { UploadService } from '../../../shared/services/upload.service';
+import { NotificationService } from '../../../shared/services/notification.service';
+import { Task, TaskStatus } from '../../../shared/models/task.model';
+
+describe('UploadHistoryComponent', () => {
+  let component: UploadHistoryComponent;
+  let http: HttpTestingController;
+
+  const task = (id: number, taskType: string, status: TaskStatus, startTime: string): Task => ({
+    id,
+    taskType,
+    status,
+    startTime,
+    createdDate: startTime
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpTestingController);
+    component = new UploadHistoryComponent(
+      TestBed.inject(UploadService),
+      jasmine.createSpyObj<NotificationService>('NotificationService', ['error'])
+    );
+  });
+
+  afterEach(() => {
+    component.ngOnDestroy();
+    http.verify();
+  });
+
+  it('should list uploads newest first and mark the latest completed one of each type as current', () => {
+    component.loadHistory();
+    http.expectOne('http://localhost:9000/toy-iris/api/tasks').flush([
+      task(1, 'UPLOAD_STYLES', 'COMPLETED', '2024-01-01T00:00:00'),
+      task(2, 'UPLOAD_STYLES', 'COMPLETED', '2024-01-02T00:00:00'),
+      task(3, 'UPLOAD_STYLES', 'FAILED', '2024-01-03T00:00:00'),
+      task(4, 'UPLOAD_SKUS', 'COMPLETED', '2024-01-01T12:00:00'),
+      task(5, 'RUN_NOOS', 'COMPLETED', '2024-01-04T00:00:00')
+    ]);
+
+    expect(component.entries.map(entry => entry.task.id)).toEqual([3, 2, 4, 1]);
+    expect(component.entries.filter(entry => entry.isCurrentDataset).map(entry => entry.task.id)).toEqual([2, 4]);
+    expect(component.entries.find(entry => entry.task.id === 4)?.fileType).toBe('skus');
+  });
+});
@@ -0,0 +1,248 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterModule } from '@angular/router';
+import { Observable, Subject, takeUntil } from 'rxjs';
+import { UploadService, UPLOAD_ORDER } from '../../../shared/services/upload.service';
+import { Task } from '../../../shared/models/task.model';
+import { NotificationService } from '../../../shared/services/notification.service';
+
+interface UploadHistoryEntry {
+  task: Task;
+  fileType: string;
+  durationMs: number | null;
+  // Most recent completed upload of its type, i.e. the dataset currently loaded
+  isCurrentDataset: boolean;
+}
+
+interface UploadHistoryFilters {
+  fileType: string;
+  status: string;
+  fromDate: string;
+  toDate: string;
+}
+
+/**
+ * Past data uploads with their outcome and links to their reports and datasets
+ */
+@Component({
+  selector: 'app-upload-history',
+  templateUrl: './upload-history.component.html',
+  styleUrls: ['./upload-history.component.scss'],
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterModule
+  ]
+})
+export class UploadHistoryComponent implements OnInit, OnDestroy {
+  private destroy$ = new Subject<void>();
+
+  readonly fileTypes = UPLOAD_ORDER;
+  readonly statuses = ['PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'];
+  readonly pageSize = 25;
+
+  entries: UploadHistoryEntry[] = [];
+  filteredEntries: UploadHistoryEntry[] = [];
+  filters: UploadHistoryFilters = { fileType: '', status: '', fromDate: '', toDate: '' };
+  page = 0;
+  isLoading = false;
+  lastRefreshTime = new Date();
+  downloading = new Set<string>();
+
+  constructor(
+    private uploadService: UploadService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadHistory();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Load every task and keep the data uploads, newest first
+   */
+  loadHistory(): void {
+    this.isLoading = true;
+    this.uploadService.getAllTasks()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (tasks) => {
+          this.entries = this.buildEntries(tasks);
+          this.applyFilters();
+          this.isLoading = false;
+          this.lastRefreshTime = new Date();
+        },
+        error: (error) => {
+          console.error('Error loading upload history:', error);
+          this.isLoading = false;
+          this.notificationService.error('Load Failed', 'Failed to load upload history');
+        }
+      });
+  }
+
+  private buildEntries(tasks: Task[]): UploadHistoryEntry[] {
+    const currentDatasets = new Set<number>();
+    const entries = tasks
+      .map(task => ({ task, fileType: this.uploadService.getFileTypeForTask(task.taskType) }))
+      .filter((entry): entry is { task: Task; fileType: string } => !!entry.fileType)
+      .sort((a, b) => this.getStartTime(b.task) - this.getStartTime(a.task));
+
+    this.fileTypes.forEach(fileType => {
+      const latest = entries.find(entry => entry.fileType === fileType && entry.task.status === 'COMPLETED');
+      if (latest) {
+        currentDatasets.add(latest.task.id);
+      }
+    });
+
+    return entries.map(({ task, fileType }) => ({
+      task,
+      fileType,
+      durationMs: task.endTime ? new Date(task.endTime).getTime() - this.getStartTime(task) : null,
+      isCurrentDataset: currentDatasets.has(task.id)
+    }));
+  }
+
+  /**
+   * Apply the file type, status and date filters and go back to the first page
+   */
+  applyFilters(): void {
+    const from = this.filters.fromDate ? new Date(`${this.filters.fromDate}T00:00:00`).getTime() : null;
+    const to = this.filters.toDate ? new Date(`${this.filters.toDate}T23:59:59.999`).getTime() : null;
+
+    this.filteredEntries = this.entries.filter(entry => {
+      const started = this.getStartTime(entry.task);
+      return (!this.filters.fileType || entry.fileType === this.filters.fileType)
+        && (!this.filters.status || entry.task.status === this.filters.status)
+        && (from === null || started >= from)
+        && (to === null || started <= to);
+    });
+    this.page = 0;
+  }
+
+  clearFilters(): void {
+    this.filters = { fileType: '', status: '', fromDate: '', toDate: '' };
+    this.applyFilters();
+  }
+
+  hasActiveFilters(): boolean {
+    return Object.values(this.filters).some(value => !!value);
+  }
+
+  get pageCount(): number {
+    return Math.max(1, Math.ceil(this.filteredEntries.length / this.pageSize));
+  }
+
+  get pageEntries(): UploadHistoryEntry[] {
+    const start = this.page * this.pageSize;
+    return this.filteredEntries.slice(start, start + this.pageSize);
+  }
+
+  goToPage(page: number): void {
+    this.page = Math.min(Math.max(page, 0), this.pageCount - 1);
+  }
+
+  downloadErrorReport(entry: UploadHistoryEntry): void {
+    this.download(entry, 'errors', this.uploadService.downloadErrorReport(entry.task.id),
+      `error_report_${entry.fileType}_task_${entry.task.id}.tsv`);
+  }
+
+  downloadSkippedRecords(entry: UploadHistoryEntry): void {
+    this.download(entry, 'skipped', this.uploadService.downloadSkippedRecords(entry.task.id),
+      `skipped_records_${entry.fileType}_task_${entry.task.id}.tsv`);
+  }
+
+  /**
+   * Download the dataset this upload produced (only while it is still the loaded one)
+   */
+  downloadDataset(entry: UploadHistoryEntry): void {
+    const key = this.getDownloadKey(entry, 'dataset');
+    this.downloading.add(key);
+    this.uploadService.downloadDataFileAsync(entry.fileType)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (result) => {
+          if (result.blob && result.filename) {
+            this.uploadService.triggerDownload(result.blob, result.filename);
+          }
+        },
+        error: (error) => {
+          console.error('Download error:', error);
+          this.downloading.delete(key);
+          this.notificationService.error('Download Failed', `Failed to download ${entry.fileType} data`);
+        },
+        complete: () => this.downloading.delete(key)
+      });
+  }
+
+  isDownloading(entry: UploadHistoryEntry, kind: string): boolean {
+    return this.downloading.has(this.getDownloadKey(entry, kind));
+  }
+
+  private download(entry: UploadHistoryEntry, kind: string, request: Observable<Blob>, filename: string): void {
+    const key = this.getDownloadKey(entry, kind);
+    this.downloading.add(key);
+    request
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (blob) => {
+          this.downloading.delete(key);
+          this.uploadService.triggerDownload(blob, filename);
+        },
+        error: (error) => {
+          console.error('Download error:', error);
+          this.downloading.delete(key);
+          this.notificationService.error('Download Failed', error.message);
+        }
+      });
+  }
+
+  private getDownloadKey(entry: UploadHistoryEntry, kind: string): string {
+    return `${entry.task.id}:${kind}`;
+  }
+
+  private getStartTime(task: Task): number {
+    return new Date(task.startTime || task.createdDate).getTime();
+  }
+
+  /**
+   * Format a duration like "1m 05s" or "850ms"
+   */
+  formatDuration(durationMs: number | null): string {
+    if (durationMs === null || durationMs < 0) {
+      return '—';
+    }
+    if (durationMs < 1000) {
+      return `${durationMs}ms`;
+    }
+    const seconds = Math.round(durationMs / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+  }
+
+  getStatusClass(status: string): string {
+    switch (status) {
+      case 'COMPLETED': return 'success';
+      case 'FAILED': return 'error';
+      case 'CANCELLED': return 'warning';
+      default: return 'primary';
+    }
+  }
+
+  getFileTypeDisplayName(fileType: string): string {
+    return this.uploadService.getFileTypeDisplayName(fileType);
+  }
+
+  /**
+   * Get icon name for material icon
+   */
+  getIconName(materialIcon: string): string {
+    return materialIcon;
+  }
+}
@@ -1,8 +1,38 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { Subject, takeUntil } from 'rxjs';
-import { UploadService, UploadStatus } from '../../shared/services/upload.service';
+import { RouterModule } from '@angular/router';
+import { Subject, Subscription, filter, forkJoin, from, map, switchMap, take, takeUntil } from 'rxjs';
+import { UploadService, UploadStatus, UploadMode, UploadFingerprint, UPLOAD_MODES } from '../../shared/services/upload.service';
+import { FileAnalysisService } from '../../shared/services/file-analysis.service';
+import { MAX_CHUNKED_UPLOAD_SIZE_MB } from '../../shared/services/chunked-upload.service';
+import { UploadQueueService } from '../../shared/services/upload-queue.service';
+import { ManagedUpload, UploadManagerService } from '../../shared/services/upload-manager.service';
+import { DatasetProfileService } from '../../shared/services/dataset-profile.service';
+import { BatchUploadComponent } from './batch-upload/batch-upload.component';
+import { FilePreviewComponent } from './file-preview/file-preview.component';
+import { ColumnMappingComponent } from './column-mapping/column-mapping.component';
+import { DatasetDiffComponent } from './dataset-diff/dataset-diff.component';
+import { ClearDatasetComponent } from './clear-dataset/clear-dataset.component';
+import { DatasetExportComponent } from './dataset-export/dataset-export.component';
+import { SampleDataComponent } from './sample-data/sample-data.component';
+import { DatasetProfileComponent } from './dataset-profile/dataset-profile.component';
+import { ReferenceCheckComponent } from './reference-check/reference-check.component';
+import {
+  ColumnMapping,
+  ConvertedFile,
+  DatasetDiff,
+  FilePreview,
+  FileValidationResult,
+  ReferenceCheckResult,
+  UPLOAD_REFERENCES,
+  UPLOAD_SCHEMAS
+} from '../../shared/models/upload-schema.model';
+import { headersMatchSchema } from '../../shared/utils/column-mapping';
+import { ACCEPTED_UPLOAD_EXTENSIONS, isFileChanged, needsConversion } from '../../shared/utils/file-conversion';
+import { describeTextFormat } from '../../shared/utils/text-format';
+import { buildUploadTemplate } from '../../shared/utils/sample-data';
+import { ReferenceSource } from '../../shared/utils/reference-check';
 
 interface UploadFile {
   id: string;
@@ -19,6 +49,10 @@ interface UploadFile {
   hasValidationReport?: boolean;
 }
 
+/**
+ * File types whose current data can be compared with a replacement file before upload
+ */
+const COMPARABLE_FILE_TYPES = ['styles', 'stores'];
 
 @Component({
   selector: 'app-upload',
@@ -27,7 +61,17 @@ interface UploadFile {
   standalone: true,
   imports: [
     CommonModule,
-    FormsModule
+    FormsModule,
+    RouterModule,
+    BatchUploadComponent,
+    FilePreviewComponent,
+    ColumnMappingComponent,
+    DatasetDiffComponent,
+    ClearDatasetComponent,
+    DatasetExportComponent,
+    SampleDataComponent,
+    DatasetProfileComponent,
+    ReferenceCheckComponent
   ]
 })
 export class UploadComponent implements OnInit, OnDestroy {
@@ -67,13 +111,78 @@ export class UploadComponent implements OnInit, OnDestroy {
   selectedFile: File | null = null;
   selectedFileType: string = '';
   showUploadModal = false;
+  showBatchModal = false;
+  showSampleDataModal = false;
+  clearFileType: string | null = null;
+  exportFileType: string | null = null;
+  profileFileType: string | null = null;
   isLoading = false;
   lastRefreshTime = new Date();
+  latestStatus: UploadStatus = {};
+  currentUploadModes: { [fileType: string]: UploadMode } = {};
+  readonly uploadModes = UPLOAD_MODES;
+  uploadMode: UploadMode = 'replace';
+  readonly acceptedExtensions = ACCEPTED_UPLOAD_EXTENSIONS.join(',');
+  dragOverFileType: string | null = null;
+  isModalDragOver = false;
 
-  constructor(private uploadService: UploadService) {}
+  // Parsed preview of the selected file
+  isPreviewing = false;
+  filePreview: FilePreview | null = null;
+  private previewSubscription?: Subscription;
+
+  // Column mapping; originalFile is the file as picked, before it was remapped
+  originalFile: File | null = null;
+  mappingSkipped = false;
+  isRemapping = false;
+  remapProgress = 0;
+  private remapSubscription?: Subscription;
+
+  // Conversion of CSV/XLSX/compressed files to TSV and of any text to UTF-8 with LF line endings
+  isConverting = false;
+  conversionLabel = '';
+  conversionProgress = 0;
+  convertedFrom: ConvertedFile | null = null;
+  private conversionSubscription?: Subscription;
+
+  // Client-side pre-validation of the selected file
+  isValidating = false;
+  validationProgress = 0;
+  validationResult: FileValidationResult | null = null;
+  validationError = '';
+  private validationSubscription?: Subscription;
+
+  // Optional comparison with the data the upload would replace
+  compareBeforeReplace = false;
+  diffStage: 'idle' | 'downloading' | 'comparing' = 'idle';
+  diffProgress = 0;
+  datasetDiff: DatasetDiff | null = null;
+  diffError = '';
+  private diffSubscription?: Subscription;
+
+  // Earlier upload of the same file content, found by hash
+  previousUpload: UploadFingerprint | null = null;
+  private previousUploadSubscription?: Subscription;
+
+  // Cross-check of referencing columns (e.g. sales.sku) against the loaded data they point to
+  referenceStage: 'idle' | 'downloading' | 'checking' | 'excluding' = 'idle';
+  referenceProgress = 0;
+  referenceCheck: ReferenceCheckResult | null = null;
+  referenceError = '';
+  private referenceSources: ReferenceSource[] = [];
+  private referenceSubscription?: Subscription;
+
+  constructor(
+    private uploadService: UploadService,
+    private fileAnalysisService: FileAnalysisService,
+    private uploadQueueService: UploadQueueService,
+    private uploadManagerService: UploadManagerService,
+    private datasetProfileService: DatasetProfileService
+  ) {}
 
   ngOnInit(): void {
     this.fetchDataStatus();
+    this.watchUploadManager();
   }
 
   ngOnDestroy(): void {
@@ -90,7 +199,12 @@ export class UploadComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: (data) => {
+          this.latestStatus = data;
           this.updateUploadFilesStatus(data);
+          // Uploads still transferring are not in the backend status yet
+          this.uploadManagerService.uploads
+            .filter(upload => this.uploadManagerService.isActive(upload.fileType))
+            .forEach(upload => this.applyManagedUpload(upload));
           this.lastRefreshTime = new Date();
           this.isLoading = false;
         },
@@ -107,6 +221,13 @@ export class UploadComponent implements OnInit, OnDestroy {
           this.updateUploadFilesStatus(fallbackData);
         }
       });
+
+    this.uploadService.getCurrentUploadModes()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (modes) => this.currentUploadModes = modes,
+        error: (error) => console.error('Error fetching upload modes:', error)
+      });
   }
 
   /**
@@ -162,6 +283,105 @@ export class UploadComponent implements OnInit, OnDestroy {
     return this.uploadService.checkUploadDependencies(fileType, statusData);
   }
 
+  /**
+   * Mirror uploads owned by the upload manager on the cards, including ones started before navigating away.
+   * Uploads that had already finished when the page opened are left to fetchDataStatus.
+   */
+  private watchUploadManager(): void {
+    // Each state change is a new object, so this applies every change exactly once
+    const applied = new WeakSet<ManagedUpload>();
+    // File types whose upload was active while this page was open
+    const followed = new Set<string>();
+
+    this.uploadManagerService.uploads$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(uploads => {
+        uploads
+          .filter(upload => !applied.has(upload))
+          .forEach(upload => {
+            applied.add(upload);
+            if (upload.status === 'uploading' || upload.status === 'processing') {
+              followed.add(upload.fileType);
+            } else if (!followed.delete(upload.fileType)) {
+              return;
+            }
+
+            this.applyManagedUpload(upload);
+            if (upload.status === 'completed' || upload.status === 'cancelled') {
+              // Refresh to pick up counts and unblock dependents
+              this.fetchDataStatus();
+            }
+          });
+      });
+  }
+
+  private applyManagedUpload(upload: ManagedUpload): void {
+    const file = this.uploadFiles.find(f => f.id === upload.fileType);
+    if (!file) {
+      return;
+    }
+
+    switch (upload.status) {
+      case 'uploading':
+      case 'processing':
+        file.status = 'processing';
+        file.progress = upload.progress;
+        file.progressMessage = upload.message;
+        file.taskId = upload.taskId;
+        break;
+      case 'completed':
+        file.status = 'success';
+        file.progress = 100;
+        file.progressMessage = upload.message;
+        break;
+      case 'failed':
+        file.status = 'error';
+        file.errorMessage = `Upload failed: ${upload.errorMessage}`;
+        file.progress = 0;
+        file.progressMessage = '';
+        file.taskId = upload.taskId;
+        file.hasValidationReport = upload.hasValidationReport;
+        break;
+    }
+  }
+
+  openBatchModal(): void {
+    this.showBatchModal = true;
+  }
+
+  closeBatchModal(): void {
+    this.showBatchModal = false;
+  }
+
+  openSampleDataModal(): void {
+    this.showSampleDataModal = true;
+  }
+
+  closeSampleDataModal(): void {
+    this.showSampleDataModal = false;
+  }
+
+  /**
+   * Upload generated sample files through the batch queue and show its progress
+   */
+  onSampleUploadRequested(files: { fileType: string; file: File }[]): void {
+    if (this.uploadQueueService.isRunning) {
+      console.warn('A batch upload is already running');
+      return;
+    }
+    this.uploadQueueService.start(files, this.latestStatus);
+    this.showSampleDataModal = false;
+    this.showBatchModal = true;
+  }
+
+  /**
+   * Download the annotated template for a file type
+   */
+  downloadTemplate(fileType: string): void {
+    const blob = new Blob([buildUploadTemplate(fileType)], { type: 'text/tab-separated-values' });
+    this.uploadService.triggerDownload(blob, `${fileType}_template.tsv`);
+  }
+
   /**
    * Open upload modal for a specific file type
    */
@@ -181,6 +401,16 @@ export class UploadComponent implements OnInit, OnDestroy {
     this.showUploadModal = false;
     this.selectedFile = null;
     this.selectedFileType = '';
+    this.isModalDragOver = false;
+    this.resetConversion();
+    this.resetMapping();
+    this.resetPreview();
+    this.resetValidation();
+    this.resetDiff();
+    this.resetReferenceCheck();
+    this.resetPreviousUpload();
+    this.compareBeforeReplace = false;
+    this.uploadMode = 'replace';
   }
 
   /**
@@ -189,116 +419,642 @@ export class UploadComponent implements OnInit, OnDestroy {
   onFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
     if (input.files && input.files[0]) {
-      this.selectedFile = input.files[0];
+      this.selectFile(input.files[0]);
     }
   }
 
   /**
-   * Upload selected file
+   * Highlight a card while a file is dragged over it
    */
-  uploadFile(): void {
+  onCardDragOver(event: DragEvent, file: UploadFile): void {
+    if (!this.canDropOnCard(file)) {
+      return;
+    }
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'copy';
+    }
+    this.dragOverFileType = file.id;
+  }
+
+  onCardDragLeave(event: DragEvent, file: UploadFile): void {
+    // Ignore leave events fired when moving between the card's children
+    const related = event.relatedTarget as Node | null;
+    if (related && (event.currentTarget as HTMLElement).contains(related)) {
+      return;
+    }
+    if (this.dragOverFileType === file.id) {
+      this.dragOverFileType = null;
+    }
+  }
+
+  /**
+   * Open the upload modal for the card a file was dropped on, with that file selected
+   */
+  onCardDrop(event: DragEvent, file: UploadFile): void {
+    this.dragOverFileType = null;
+    const dropped = event.dataTransfer?.files?.[0];
+    if (!dropped || !this.canDropOnCard(file)) {
+      return;
+    }
+    event.preventDefault();
+    this.openUploadModal(file.id);
+    this.selectFile(dropped);
+  }
+
+  onModalDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.isModalDragOver = true;
+  }
+
+  onModalDragLeave(): void {
+    this.isModalDragOver = false;
+  }
+
+  onModalDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isModalDragOver = false;
+    const dropped = event.dataTransfer?.files?.[0];
+    if (dropped) {
+      this.selectFile(dropped);
+    }
+  }
+
+  private canDropOnCard(file: UploadFile): boolean {
+    return file.canUpload && file.status !== 'processing';
+  }
+
+  /**
+   * Use a picked or dropped file: parse a preview and pre-validate it
+   */
+  private selectFile(file: File): void {
+    this.resetConversion();
+    this.resetMapping();
+    if (this.uploadService.isValidFileType(file)) {
+      this.convertSelectedFile(file);
+    } else {
+      this.useFile(file);
+    }
+  }
+
+  /**
+   * Decompress/convert a CSV, XLSX or archive to TSV and re-encode text as UTF-8/LF,
+   * then preview and validate the result
+   */
+  private convertSelectedFile(file: File): void {
+    this.selectedFile = file;
+    this.isConverting = true;
+    this.conversionLabel = needsConversion(file.name) ? 'Converting to TSV' : 'Checking encoding and line endings';
+    this.conversionProgress = 0;
+    this.conversionSubscription = this.fileAnalysisService.convertFile(file)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (update) => {
+          this.conversionProgress = update.progress;
+          if (update.result && update.converted) {
+            if (isFileChanged(update.converted)) {
+              this.convertedFrom = update.converted;
+              this.useFile(update.result);
+            } else {
+              this.useFile(file);
+            }
+          }
+        },
+        error: (error) => {
+          console.error('File conversion error:', error);
+          this.isConverting = false;
+          this.validationError = `Could not convert ${file.name}: ${error.message}`;
+        },
+        complete: () => {
+          this.isConverting = false;
+        }
+      });
+  }
+
+  private resetConversion(): void {
+    this.conversionSubscription?.unsubscribe();
+    this.conversionSubscription = undefined;
+    this.isConverting = false;
+    this.conversionProgress = 0;
+    this.convertedFrom = null;
+  }
+
+  /**
+   * Human-readable description of what a selected file was converted from
+   */
+  getConversionLabel(): string {
+    if (!this.convertedFrom) {
+      return '';
+    }
+    const { sourceName, sourceFormat, compression, textFormat, transcoded } = this.convertedFrom;
+    const steps: string[] = [];
+    if (needsConversion(sourceName)) {
+      const formats: { [format: string]: string } = { csv: 'CSV', xlsx: 'Excel', tsv: 'TSV' };
+      const parts = [formats[sourceFormat]];
+      if (compression) {
+        parts.push(compression === 'gzip' ? 'gzip' : 'zip archive');
+      }
+      steps.push(`Converted to TSV from ${sourceName} (${parts.join(', ')})`);
+    }
+    if (transcoded && textFormat) {
+      steps.push(`${steps.length > 0 ? 're-encoded' : 'Re-encoded'} from ${describeTextFormat(textFormat)} to UTF-8 with LF line endings`);
+    }
+    return steps.join('; ');
+  }
+
+  private useFile(file: File): void {
+    this.selectedFile = file;
+    this.resetDiff();
+    this.loadPreview();
+    this.validateSelectedFile();
+  }
+
+  /**
+   * Whether the selected file's headers need mapping onto the expected columns
+   */
+  needsColumnMapping(): boolean {
+    const schema = UPLOAD_SCHEMAS[this.selectedFileType];
+    return !!this.filePreview && !!schema && !this.mappingSkipped && !this.originalFile
+      && !headersMatchSchema(this.filePreview.headers, schema);
+  }
+
+  /**
+   * Rewrite the selected file into the expected columns and re-check it
+   */
+  onMappingApplied(mapping: ColumnMapping): void {
+    if (!this.selectedFile) {
+      return;
+    }
+
+    const original = this.selectedFile;
+    this.isRemapping = true;
+    this.remapProgress = 0;
+    this.remapSubscription = this.fileAnalysisService.remapFile(original, this.selectedFileType, mapping)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (update) => {
+          this.remapProgress = update.progress;
+          if (update.result) {
+            this.originalFile = original;
+            this.useFile(update.result);
+          }
+        },
+        error: (error) => {
+          console.error('Column mapping error:', error);
+          this.isRemapping = false;
+          this.validationError = `Could not remap columns: ${error.message}`;
+        },
+        complete: () => {
+          this.isRemapping = false;
+        }
+      });
+  }
+
+  onMappingSkipped(): void {
+    this.mappingSkipped = true;
+  }
+
+  /**
+   * Go back to the file as it was picked, before column mapping
+   */
+  undoColumnMapping(): void {
+    if (this.originalFile) {
+      const original = this.originalFile;
+      this.resetMapping();
+      this.useFile(original);
+    }
+  }
+
+  private resetMapping(): void {
+    this.remapSubscription?.unsubscribe();
+    this.remapSubscription = undefined;
+    this.isRemapping = false;
+    this.remapProgress = 0;
+    this.originalFile = null;
+    this.mappingSkipped = false;
+  }
+
+  /**
+   * Parse the first rows of the selected file for the preview table
+   */
+  private loadPreview(): void {
+    this.resetPreview();
+    if (!this.selectedFile || !this.uploadService.isValidFileType(this.selectedFile)) {
+      return;
+    }
+
+    this.isPreviewing = true;
+    this.previewSubscription = this.fileAnalysisService.previewFile(this.selectedFile)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (update) => {
+          if (update.result) {
+            this.filePreview = update.result;
+          }
+        },
+        error: (error) => {
+          console.error('File preview error:', error);
+          this.isPreviewing = false;
+        },
+        complete: () => {
+          this.isPreviewing = false;
+        }
+      });
+  }
+
+  private resetPreview(): void {
+    this.previewSubscription?.unsubscribe();
+    this.previewSubscription = undefined;
+    this.isPreviewing = false;
+    this.filePreview = null;
+  }
+
+  /**
+   * File type detected from the preview headers when it differs from the one being uploaded
+   */
+  getDetectedTypeMismatch(): UploadFile | null {
+    const detected = this.filePreview?.detectedFileType;
+    if (!detected || detected === this.selectedFileType) {
+      return null;
+    }
+    return this.uploadFiles.find(f => f.id === detected) || null;
+  }
+
+  /**
+   * Upload the selected file as a different type (e.g. the one detected from its headers)
+   */
+  switchFileType(fileType: string): void {
+    const file = this.uploadFiles.find(f => f.id === fileType);
+    if (!file || !this.canDropOnCard(file)) {
+      return;
+    }
+    this.selectedFileType = fileType;
+    this.resetDiff();
+    if (this.originalFile) {
+      // The mapping was for the previous type
+      this.undoColumnMapping();
+    } else {
+      this.validateSelectedFile();
+    }
+  }
+
+  /**
+   * Check headers, column types and required fields of the selected file before upload
+   */
+  private validateSelectedFile(): void {
+    this.resetValidation();
+    this.resetReferenceCheck();
+    this.resetPreviousUpload();
     if (!this.selectedFile || !this.selectedFileType) {
-      console.error('No file or file type selected');
       return;
     }
 
-    // Validate file before upload
     if (!this.uploadService.isValidFileType(this.selectedFile)) {
-      console.error('Invalid file type. Please select a .tsv or .txt file.');
+      this.validationError = `Invalid file type. Please select a ${ACCEPTED_UPLOAD_EXTENSIONS.join(', ')} file.`;
       return;
     }
 
-    if (!this.uploadService.isValidFileSize(this.selectedFile)) {
-      console.error('File size too large. Maximum size is 50MB.');
+    if (!this.uploadService.isValidFileSize(this.selectedFile, MAX_CHUNKED_UPLOAD_SIZE_MB)) {
+      this.validationError = `File size too large. Maximum size is ${MAX_CHUNKED_UPLOAD_SIZE_MB / 1024}GB.`;
       return;
     }
 
-    // Store file reference before closing modal
-    const fileToUpload = this.selectedFile;
-    const fileTypeToUpload = this.selectedFileType;
+    this.findPreviousUpload();
+    this.isValidating = true;
+    this.validationSubscription = this.fileAnalysisService.validateFile(this.selectedFileType, this.selectedFile)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (update) => {
+          this.validationProgress = update.progress;
+          if (update.result) {
+            this.validationResult = update.result;
+          }
+        },
+        error: (error) => {
+          console.error('File validation error:', error);
+          this.isValidating = false;
+          this.validationError = `Could not validate file: ${error.message}`;
+        },
+        complete: () => {
+          this.isValidating = false;
+          if (this.validationResult?.valid && this.canCheckReferences()) {
+            this.checkReferences();
+          }
+        }
+      });
+  }
 
-    // Close modal immediately and start upload
-    this.closeUploadModal();
+  /**
+   * Stop any running validation and clear its result
+   */
+  private resetValidation(): void {
+    this.validationSubscription?.unsubscribe();
+    this.validationSubscription = undefined;
+    this.isValidating = false;
+    this.validationProgress = 0;
+    this.validationResult = null;
+    this.validationError = '';
+  }
 
-    // Start the upload process
-    this.uploadService.uploadFileAsync(fileTypeToUpload, fileToUpload)
+  /**
+   * Look up whether the selected file's exact content was uploaded for this type before
+   */
+  private findPreviousUpload(): void {
+    if (!this.selectedFile) {
+      return;
+    }
+
+    this.previousUploadSubscription = from(this.uploadService.findPreviousUpload(this.selectedFileType, this.selectedFile))
       .pipe(takeUntil(this.destroy$))
       .subscribe({
-        next: (result) => {
-          // Update the specific file's status in the uploadFiles array
-          const file = this.uploadFiles.find(f => f.id === fileTypeToUpload);
-          if (file) {
-            if (result.task) {
-              file.status = 'processing';
-              file.progress = result.progress;
-              file.progressMessage = result.task.progressMessage || `Processing... ${result.progress}%`;
-              file.taskId = result.task.id;
-            }
-            
-            if (result.completed) {
-              file.status = 'success';
-              file.progress = 100;
-              file.progressMessage = 'Upload completed successfully!';
-              // Refresh status to get updated counts
-              this.fetchDataStatus();
-            }
+        next: (fingerprint) => {
+          this.previousUpload = fingerprint;
+        },
+        error: (error) => {
+          console.warn('Could not check for a previous upload of this file:', error);
+        }
+      });
+  }
+
+  private resetPreviousUpload(): void {
+    this.previousUploadSubscription?.unsubscribe();
+    this.previousUploadSubscription = undefined;
+    this.previousUpload = null;
+  }
+
+  /**
+   * Whether the selected file passed pre-validation and can be uploaded
+   */
+  canSubmitUpload(): boolean {
+    return !!this.selectedFile && !this.isValidating && !this.validationError && !!this.validationResult?.valid
+      && this.referenceStage === 'idle';
+  }
+
+  /**
+   * Whether data is already loaded for the selected type, so the upload mode matters
+   */
+  hasExistingData(): boolean {
+    return !!this.latestStatus[this.selectedFileType]?.exists;
+  }
+
+  onUploadModeChange(): void {
+    if (this.uploadMode !== 'replace') {
+      this.resetDiff();
+      this.compareBeforeReplace = false;
+    }
+  }
+
+  /**
+   * Label of the mode that produced a file type's current data
+   */
+  getCurrentModeLabel(fileType: string): string {
+    const mode = this.currentUploadModes[fileType];
+    return this.uploadModes.find(option => option.mode === mode)?.label || '';
+  }
+
+  /**
+   * Whether the selected file would replace existing data that can be compared first
+   */
+  canCompareBeforeReplace(): boolean {
+    return this.uploadMode === 'replace' && COMPARABLE_FILE_TYPES.includes(this.selectedFileType) && this.hasExistingData();
+  }
+
+  /**
+   * Whether the upload has to wait for the comparison to be run and reviewed
+   */
+  needsComparison(): boolean {
+    return this.compareBeforeReplace && this.canCompareBeforeReplace() && !this.datasetDiff;
+  }
+
+  onCompareBeforeReplaceChange(): void {
+    if (!this.compareBeforeReplace) {
+      this.resetDiff();
+    }
+  }
+
+  /**
+   * Download the current dataset and diff it against the selected file by key column
+   */
+  compareWithCurrentData(): void {
+    if (!this.selectedFile || !this.canSubmitUpload()) {
+      return;
+    }
+
+    const file = this.selectedFile;
+    const fileType = this.selectedFileType;
+    this.resetDiff();
+    this.diffStage = 'downloading';
+    this.diffSubscription = this.uploadService.downloadDataFileAsync(fileType)
+      .pipe(
+        takeUntil(this.destroy$),
+        filter(result => !!result.blob),
+        take(1),
+        switchMap(result => {
+          this.diffStage = 'comparing';
+          return this.fileAnalysisService.diffFile(fileType, result.blob!, file);
+        })
+      )
+      .subscribe({
+        next: (update) => {
+          this.diffProgress = update.progress;
+          if (update.result) {
+            this.datasetDiff = update.result;
           }
         },
         error: (error) => {
-          console.error('Upload error:', error);
-          // Update the specific file's status to error
-          const file = this.uploadFiles.find(f => f.id === fileTypeToUpload);
-          if (file) {
-            file.status = 'error';
-            file.errorMessage = `Upload failed: ${error.message}`;
-            file.progress = 0;
-            file.progressMessage = '';
-            
-            // Check if we have task information attached to the error
-            const task = (error as any).task;
-            if (task) {
-              file.taskId = task.id;
-              // Set hasValidationReport if there are validation errors or if the error message indicates validation issues
-              if (error.message && (error.message.includes('validation') || error.message.includes('error') || error.message.includes('missing'))) {
-                file.hasValidationReport = true;
-              }
-            } else {
-              // Fallback: check if this is a validation error that would have a validation report
-              if (error.message && (error.message.includes('validation') || error.message.includes('error') || error.message.includes('missing'))) {
-                file.hasValidationReport = true;
-              }
-            }
+          console.error('Dataset comparison error:', error);
+          this.diffStage = 'idle';
+          this.diffError = `Could not compare with current data: ${error.message}`;
+        },
+        complete: () => {
+          this.diffStage = 'idle';
+        }
+      });
+  }
+
+  private resetDiff(): void {
+    this.diffSubscription?.unsubscribe();
+    this.diffSubscription = undefined;
+    this.diffStage = 'idle';
+    this.diffProgress = 0;
+    this.datasetDiff = null;
+    this.diffError = '';
+  }
+
+  /**
+   * Whether the selected file references other datasets and all of them are loaded to check against
+   */
+  canCheckReferences(): boolean {
+    const references = UPLOAD_REFERENCES[this.selectedFileType] || [];
+    return references.length > 0 && references.every(reference => this.latestStatus[reference.fileType]?.exists);
+  }
+
+  /**
+   * Whether the check found rows the server would reject, so the user has to decide what to do with them
+   */
+  hasOrphanRows(): boolean {
+    return !!this.referenceCheck && this.referenceCheck.orphanRowCount > 0;
+  }
+
+  /**
+   * Download the datasets the selected file references and look for values missing from them
+   */
+  private checkReferences(): void {
+    if (!this.selectedFile) {
+      return;
+    }
+
+    const file = this.selectedFile;
+    this.resetReferenceCheck();
+    this.referenceStage = 'downloading';
+    this.referenceSubscription = forkJoin(
+      UPLOAD_REFERENCES[this.selectedFileType].map(reference =>
+        this.uploadService.downloadDataFileAsync(reference.fileType).pipe(
+          filter(result => !!result.blob),
+          take(1),
+          map(result => ({ ...reference, data: result.blob! }))
+        )
+      )
+    )
+      .pipe(
+        takeUntil(this.destroy$),
+        switchMap(sources => {
+          this.referenceSources = sources;
+          this.referenceStage = 'checking';
+          return this.fileAnalysisService.checkReferences(file, sources);
+        })
+      )
+      .subscribe({
+        next: (update) => {
+          this.referenceProgress = update.progress;
+          if (update.result) {
+            this.referenceCheck = update.result;
           }
-          // Don't refresh status immediately after error as it will override the error state
-          // The backend status endpoint doesn't include failed upload information
-          // this.fetchDataStatus();
+        },
+        error: (error) => {
+          console.error('Reference check error:', error);
+          this.referenceStage = 'idle';
+          this.referenceError = `Could not check references against loaded data: ${error.message}`;
+        },
+        complete: () => {
+          this.referenceStage = 'idle';
+        }
+      });
+  }
+
+  /**
+   * Drop the rows with missing references from the selected file and upload the rest
+   */
+  uploadWithoutOrphanRows(): void {
+    if (!this.selectedFile || !this.hasOrphanRows()) {
+      return;
+    }
+
+    this.referenceStage = 'excluding';
+    this.referenceProgress = 0;
+    this.referenceSubscription = this.fileAnalysisService.excludeOrphanRows(this.selectedFile, this.referenceSources)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (update) => {
+          this.referenceProgress = update.progress;
+          if (update.result) {
+            this.selectedFile = update.result;
+            this.referenceCheck = null;
+            this.referenceStage = 'idle';
+            this.uploadFile();
+          }
+        },
+        error: (error) => {
+          console.error('Error excluding rows:', error);
+          this.referenceStage = 'idle';
+          this.referenceError = `Could not remove the rows: ${error.message}`;
         }
       });
   }
 
+  private resetReferenceCheck(): void {
+    this.referenceSubscription?.unsubscribe();
+    this.referenceSubscription = undefined;
+    this.referenceStage = 'idle';
+    this.referenceProgress = 0;
+    this.referenceCheck = null;
+    this.referenceError = '';
+    this.referenceSources = [];
+  }
+
   /**
-   * Download data file
+   * Upload selected file
    */
-  downloadDataFile(fileType: string): void {
+  uploadFile(): void {
+    if (!this.selectedFile || !this.selectedFileType) {
+      console.error('No file or file type selected');
+      return;
+    }
+
+    // Validate file before upload
+    if (!this.uploadService.isValidFileType(this.selectedFile)) {
+      console.error(`Invalid file type. Please select a ${ACCEPTED_UPLOAD_EXTENSIONS.join(', ')} file.`);
+      return;
+    }
+
+    if (!this.uploadService.isValidFileSize(this.selectedFile, MAX_CHUNKED_UPLOAD_SIZE_MB)) {
+      console.error(`File size too large. Maximum size is ${MAX_CHUNKED_UPLOAD_SIZE_MB / 1024}GB.`);
+      return;
+    }
+
+    if (!this.validationResult?.valid) {
+      console.error('File failed pre-validation. Fix the reported errors before uploading.');
+      return;
+    }
+
+    if (this.needsComparison()) {
+      console.error('Compare the file with the current data before replacing it.');
+      return;
+    }
+
+    if (this.hasOrphanRows()) {
+      console.error('Some rows reference data that is not loaded. Upload without them or cancel.');
+      return;
+    }
+
+    // Store file reference before closing modal
+    const fileToUpload = this.selectedFile;
+    const fileTypeToUpload = this.selectedFileType;
+    const mode = this.hasExistingData() ? this.uploadMode : 'replace';
+
+    // Close modal immediately; the upload manager keeps the upload running across navigation
+    this.closeUploadModal();
+    this.uploadManagerService.startUpload(fileTypeToUpload, fileToUpload, { mode });
+  }
+
+  /**
+   * Open the export dialog for a loaded dataset
+   */
+  openExportDialog(fileType: string): void {
     const file = this.uploadFiles.find(f => f.id === fileType);
     if (file && file.status === 'success') {
-      this.uploadService.downloadDataFileAsync(fileType)
-        .pipe(takeUntil(this.destroy$))
-        .subscribe({
-          next: (result) => {
-            if (result.blob && result.filename) {
-              this.uploadService.triggerDownload(result.blob, result.filename);
-            }
-            // Progress updates can be handled here if needed
-          },
-          error: (error) => {
-            console.error('Download error:', error);
-            // Could show notification here
-          }
-        });
+      this.exportFileType = fileType;
+    }
+  }
+
+  closeExportDialog(): void {
+    this.exportFileType = null;
+  }
+
+  /**
+   * Open the column profile of a loaded dataset
+   */
+  openProfileDialog(fileType: string): void {
+    const file = this.uploadFiles.find(f => f.id === fileType);
+    if (file && file.status === 'success') {
+      this.profileFileType = fileType;
     }
   }
 
+  closeProfileDialog(): void {
+    this.profileFileType = null;
+  }
+
   /**
    * Download validation report for failed uploads
    */
@@ -332,7 +1088,15 @@ export class UploadComponent implements OnInit, OnDestroy {
    */
   cancelTask(fileType: string): void {
     const file = this.uploadFiles.find(f => f.id === fileType);
-    if (file && file.status === 'processing' && file.taskId) {
+    if (file && this.uploadManagerService.isActive(fileType)) {
+      this.uploadManagerService.cancel(fileType)
+        ?.pipe(takeUntil(this.destroy$))
+        .subscribe({
+          error: (error) => {
+            console.error('Error cancelling task:', error);
+          }
+        });
+    } else if (file && file.status === 'processing' && file.taskId) {
       this.uploadService.cancelTask(file.taskId)
         .pipe(takeUntil(this.destroy$))
         .subscribe({
@@ -347,6 +1111,26 @@ export class UploadComponent implements OnInit, OnDestroy {
   }
 
 
+  /**
+   * Open the impact preview for clearing one dataset
+   */
+  openClearDialog(fileType: string): void {
+    this.clearFileType = fileType;
+  }
+
+  closeClearDialog(): void {
+    this.clearFileType = null;
+  }
+
+  onDatasetCleared(): void {
+    if (this.clearFileType) {
+      [this.clearFileType, ...this.uploadService.getDependentFileTypes(this.clearFileType)]
+        .forEach(fileType => this.datasetProfileService.invalidate(fileType));
+    }
+    this.clearFileType = null;
+    this.fetchDataStatus();
+  }
+
   /**
    * Clear all data (with confirmation)
    */
@@ -356,6 +1140,7 @@ export class UploadComponent implements OnInit, OnDestroy {
         .pipe(takeUntil(this.destroy$))
         .subscribe({
           next: () => {
+            this.datasetProfileService.invalidateAll();
             this.fetchDataStatus(); // Refresh status after clearing
           },
           error: (error) => {
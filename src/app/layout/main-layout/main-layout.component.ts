@@ -8,6 +8,8 @@ import { map, shareReplay, takeUntil } from 'rxjs/operators';
 import { HeaderComponent } from '../header/header.component';
 import { SidebarComponent } from '../sidebar/sidebar.component';
 import { SidebarStateService } from '../../shared/services/sidebar-state.service';
+import { UploadManagerService } from '../../shared/services/upload-manager.service';
+import { RealtimeService } from '../../shared/services/realtime.service';
 
 @Component({
   selector: 'app-main-layout',
@@ -29,7 +31,9 @@ export class MainLayoutComponent implements OnInit, OnDestroy {
 
   constructor(
     private breakpointObserver: BreakpointObserver,
-    private sidebarStateService: SidebarStateService
+    private sidebarStateService: SidebarStateService,
+    private uploadManagerService: UploadManagerService,
+    private realtimeService: RealtimeService
   ) {
     this.isHandset$ = this.breakpointObserver.observe(Breakpoints.Handset)
       .pipe(
@@ -39,6 +43,12 @@ export class MainLayoutComponent implements OnInit, OnDestroy {
   }
 
   ngOnInit(): void {
+    // Live task and notification updates; everything polls until the channel is open
+    this.realtimeService.connect();
+
+    // Pick up uploads that were still processing when the page was last closed
+    this.uploadManagerService.resume();
+
     // Load persisted sidebar state
     this.sidebarCollapsed = this.sidebarStateService.isCollapsed;
     
@@ -57,6 +67,7 @@ export class MainLayoutComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.realtimeService.disconnect();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -35,6 +35,16 @@ export class SidebarComponent {
       icon: 'cloud_upload',
       route: '/upload'
     },
+    {
+      label: 'Upload History',
+      icon: 'history',
+      route: '/upload-history'
+    },
+    {
+      label: 'Task Center',
+      icon: 'assignment',
+      route: '/tasks'
+    },
     {
       label: 'Algorithm Parameters',
       icon: 'tune',
@@ -0,0 +1,90 @@
+import { Injectable } from '@angular/core';
+import { HttpEvent, HttpHandler, HttpInterceptor, HttpRequest, HttpResponse, HttpErrorResponse } from '@angular/common/http';
+import { Observable, of, throwError } from 'rxjs';
+import { ChunkedUploadSession } from '../services/chunked-upload.service';
+
+/**
+ * In-memory stand-in for the chunked upload endpoints.
+ * Register it with HTTP_INTERCEPTORS in tests or for offline development.
+ */
+@Injectable()
+export class MockChunkedUploadInterceptor implements HttpInterceptor {
+  /** Sessions by upload id, exposed so tests can inspect them */
+  readonly sessions = new Map<string, ChunkedUploadSession>();
+  /** Chunk indexes that should fail once before being accepted */
+  readonly failOnceChunks = new Set<number>();
+
+  private nextUploadId = 1;
+  private nextTaskId = 1000;
+
+  intercept(request: HttpRequest<any>, next: HttpHandler): Observable<HttpEvent<any>> {
+    const path = request.url.replace(/^.*\/api\/file/, '');
+    let match: RegExpMatchArray | null;
+
+    if (request.method === 'POST' && (match = path.match(/^\/upload\/(\w+)\/chunked$/))) {
+      const session: ChunkedUploadSession = {
+        uploadId: `mock-${this.nextUploadId++}`,
+        fileType: match[1],
+        fileName: request.body.fileName,
+        fileSize: request.body.fileSize,
+        chunkSize: request.body.chunkSize,
+        totalChunks: request.body.totalChunks,
+        receivedChunks: []
+      };
+      this.sessions.set(session.uploadId, session);
+      return this.respond(request, session);
+    }
+
+    if ((match = path.match(/^\/upload\/chunked\/([\w-]+)(\/chunks\/(\d+)|\/complete)?$/))) {
+      const session = this.sessions.get(match[1]);
+      if (!session) {
+        return this.fail(request, 404, 'Upload session not found');
+      }
+
+      if (request.method === 'GET' && !match[2]) {
+        return this.respond(request, { ...session, receivedChunks: [...session.receivedChunks] });
+      }
+
+      if (request.method === 'DELETE' && !match[2]) {
+        this.sessions.delete(session.uploadId);
+        return this.respond(request, {});
+      }
+
+      if (request.method === 'PUT' && match[3] !== undefined) {
+        const index = Number(match[3]);
+        if (this.failOnceChunks.delete(index)) {
+          return this.fail(request, 503, 'Simulated network failure');
+        }
+        if (!session.receivedChunks.includes(index)) {
+          session.receivedChunks.push(index);
+        }
+        return this.respond(request, { index, received: true });
+      }
+
+      if (request.method === 'POST' && match[2] === '/complete') {
+        if (session.receivedChunks.length !== session.totalChunks) {
+          return this.fail(request, 409, 'Upload is missing chunks');
+        }
+        this.sessions.delete(session.uploadId);
+        return this.respond(request, {
+          id: this.nextTaskId++,
+          taskType: `UPLOAD_${session.fileType.toUpperCase()}`,
+          status: 'PENDING',
+          fileName: session.fileName,
+          startTime: new Date().toISOString(),
+          createdDate: new Date().toISOString()
+        });
+      }
+    }
+
+    return next.handle(request);
+  }
+
+  private respond(request: HttpRequest<any>, body: any): Observable<HttpEvent<any>> {
+    return of(new HttpResponse({ status: 200, body, url: request.url }));
+  }
+
+  private fail(request: HttpRequest<any>, status: number, message: string): Observable<never> {
+    return throwError(() => new HttpErrorResponse({ status, error: { message }, url: request.url }));
+  }
+}
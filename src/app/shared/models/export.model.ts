@@ -0,0 +1,36 @@
+/**
+ * Export Model - options for exporting a loaded dataset to a file
+ */
+export type ExportFormat = 'tsv' | 'csv' | 'jsonl' | 'xlsx';
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'tsv', label: 'TSV', extension: '.tsv', mimeType: 'text/tab-separated-values' },
+  { format: 'csv', label: 'CSV', extension: '.csv', mimeType: 'text/csv' },
+  { format: 'jsonl', label: 'JSON Lines', extension: '.jsonl', mimeType: 'application/x-ndjson' },
+  { format: 'xlsx', label: 'Excel (XLSX)', extension: '.xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+];
+
+export type ExportFilterOperator = 'equals' | 'not_equals' | 'contains' | 'gte' | 'lte';
+
+/**
+ * Keep only rows whose column value matches; gte/lte compare numerically when both sides are numbers
+ */
+export interface ExportFilter {
+  column: string;
+  operator: ExportFilterOperator;
+  value: string;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Columns to include, in output order; empty includes every column */
+  columns: string[];
+  filters: ExportFilter[];
+}
@@ -0,0 +1,42 @@
+/**
+ * Task Model - async backend task as returned by /tasks and the async upload, download and algorithm endpoints
+ */
+export type TaskStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface Task {
+  id: number;
+  taskType: string;
+  status: TaskStatus;
+  fileName?: string;
+  totalRecords?: number;
+  processedRecords?: number;
+  errorCount?: number;
+  startTime: string;
+  endTime?: string;
+  errorMessage?: string;
+  userId?: string;
+  parameters?: string;
+  progressMessage?: string;
+  progressPercentage?: number;
+  resultUrl?: string;
+  cancellationRequested?: boolean;
+  createdDate: string;
+  lastUpdatedDate?: string;
+}
+
+export interface TaskStats {
+  total: number;
+  running: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+}
+
+/**
+ * Statuses after which a task no longer changes
+ */
+export const FINISHED_TASK_STATUSES: TaskStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+export function isTaskFinished(task: Task): boolean {
+  return FINISHED_TASK_STATUSES.includes(task.status);
+}
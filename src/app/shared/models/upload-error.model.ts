@@ -0,0 +1,36 @@
+/**
+ * A row the backend rejected during an upload, with the field and reason
+ */
+export interface ValidationError {
+  rowNumber: number;
+  errorType: string;
+  errorReason: string;
+  fieldName?: string;
+  fieldValue?: string;
+}
+
+/**
+ * One page of an upload task's validation errors
+ */
+export interface ErrorReport {
+  errors: ValidationError[];
+  totalCount: number;
+  page: number;
+  size: number;
+  totalPages: number;
+}
+
+export interface ErrorReportFilters {
+  errorType?: string;
+  fieldName?: string;
+}
+
+/**
+ * Error counts for a task grouped by type, field and reason
+ */
+export interface ErrorSummary {
+  totalCount: number;
+  byErrorType: { errorType: string; count: number }[];
+  byFieldName: { fieldName: string; count: number }[];
+  topReasons: { errorType: string; errorReason: string; fieldName?: string; count: number }[];
+}
@@ -0,0 +1,280 @@
+/**
+ * Upload Schema Model - column layout the backend expects for each upload file type
+ */
+export type ColumnType = 'string' | 'integer' | 'decimal' | 'date';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  required: boolean;
+}
+
+export interface FileSchema {
+  fileType: string;
+  columns: ColumnSchema[];
+  keyColumns: string[];
+}
+
+/**
+ * Schemas for styles, stores, skus and sales TSV files
+ */
+export const UPLOAD_SCHEMAS: { [fileType: string]: FileSchema } = {
+  styles: {
+    fileType: 'styles',
+    columns: [
+      { name: 'style', type: 'string', required: true },
+      { name: 'brand', type: 'string', required: true },
+      { name: 'category', type: 'string', required: true },
+      { name: 'sub_category', type: 'string', required: true },
+      { name: 'mrp', type: 'decimal', required: true },
+      { name: 'gender', type: 'string', required: true }
+    ],
+    keyColumns: ['style']
+  },
+  stores: {
+    fileType: 'stores',
+    columns: [
+      { name: 'branch', type: 'string', required: true },
+      { name: 'city', type: 'string', required: true }
+    ],
+    keyColumns: ['branch']
+  },
+  skus: {
+    fileType: 'skus',
+    columns: [
+      { name: 'sku', type: 'string', required: true },
+      { name: 'style', type: 'string', required: true },
+      { name: 'size', type: 'string', required: true }
+    ],
+    keyColumns: ['sku']
+  },
+  sales: {
+    fileType: 'sales',
+    columns: [
+      { name: 'day', type: 'date', required: true },
+      { name: 'sku', type: 'string', required: true },
+      { name: 'channel', type: 'string', required: true },
+      { name: 'quantity', type: 'integer', required: true },
+      { name: 'discount', type: 'decimal', required: true },
+      { name: 'revenue', type: 'decimal', required: true }
+    ],
+    keyColumns: ['day', 'sku', 'channel']
+  }
+};
+
+/**
+ * Client-side validation result for a selected upload file
+ */
+export interface FileValidationResult {
+  valid: boolean;
+  headers: string[];
+  rowCount: number;
+  errorCount: number;
+  errors: FileValidationError[];
+  truncated: boolean;
+}
+
+/**
+ * Same shape as the backend ValidationError so both can be rendered alike
+ */
+export interface FileValidationError {
+  rowNumber: number;
+  errorType: string;
+  errorReason: string;
+  fieldName?: string;
+  fieldValue?: string;
+}
+
+export type LineEnding = 'LF' | 'CRLF' | 'CR' | 'Mixed' | 'None';
+
+/**
+ * Encoding, byte order mark, delimiter and line endings sniffed from the start of a text file
+ */
+export interface TextFormat {
+  encoding: string;
+  bom: boolean;
+  delimiter: string;
+  lineEnding: LineEnding;
+}
+
+/**
+ * First rows of a selected file plus what was detected about its format
+ */
+export interface FilePreview {
+  headers: string[];
+  rows: string[][];
+  rowCount: number;
+  delimiter: string;
+  encoding: string;
+  bom: boolean;
+  lineEnding: LineEnding;
+  detectedFileType: string | null;
+}
+
+/**
+ * Expected column name → header in the source file it is read from (null leaves it empty)
+ */
+export interface ColumnMapping {
+  [targetColumn: string]: string | null;
+}
+
+/**
+ * Suggested source header for an expected column, with a 0–1 match score
+ */
+export interface ColumnMappingSuggestion {
+  targetColumn: string;
+  sourceHeader: string | null;
+  score: number;
+}
+
+/**
+ * Saved mapping for one client's files of one type
+ */
+export interface ColumnMappingTemplate {
+  id: string;
+  client: string;
+  fileType: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export type UploadSourceFormat = 'tsv' | 'csv' | 'xlsx';
+
+/**
+ * A file converted to canonical TSV (UTF-8, LF line endings, no BOM) for upload
+ */
+export interface ConvertedFile {
+  blob: Blob;
+  fileName: string;
+  sourceName: string;
+  sourceFormat: UploadSourceFormat;
+  compression: 'gzip' | 'zip' | null;
+  /** Format of the source text as found; null for XLSX */
+  textFormat: TextFormat | null;
+  /** Whether the text was re-encoded or its line endings rewritten */
+  transcoded: boolean;
+}
+
+/**
+ * Row-level comparison of a new upload against the dataset it would replace.
+ * Rows are in schema column order; samples are capped, counts are not.
+ */
+export interface DatasetDiff {
+  columns: string[];
+  keyColumns: string[];
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  unchangedCount: number;
+  added: string[][];
+  removed: string[][];
+  changed: DatasetRowChange[];
+  truncated: boolean;
+}
+
+export interface DatasetRowChange {
+  key: string;
+  before: string[];
+  after: string[];
+  changedColumns: number[];
+}
+
+/**
+ * Size of a generated sample dataset; the same seed always produces the same files
+ */
+export interface SampleDatasetOptions {
+  styles: number;
+  sizesPerStyle: number;
+  stores: number;
+  days: number;
+  salesPerDay: number;
+  startDate: string;
+  seed: number;
+}
+
+/**
+ * Generated TSV files keyed by file type
+ */
+export interface SampleDataset {
+  [fileType: string]: Blob;
+}
+
+/**
+ * Column statistics of a loaded dataset, computed client-side from its download
+ */
+export interface DatasetProfile {
+  fileType: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+  dateCoverage?: DateCoverage;
+  generatedAt: string;
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  distinctCount: number;
+  /** Distinct values stopped being counted at the cap, so distinctCount is a lower bound */
+  distinctCapped: boolean;
+  numeric?: { min: number; max: number; mean: number };
+  topValues?: { value: string; count: number }[];
+}
+
+/**
+ * Span of a date column and the days in it with no rows
+ */
+export interface DateCoverage {
+  column: string;
+  from: string;
+  to: string;
+  days: number;
+  daysWithData: number;
+  missingDays: string[];
+}
+
+/**
+ * A column whose values must exist as keys of another file type
+ */
+export interface ColumnReference {
+  column: string;
+  fileType: string;
+}
+
+/**
+ * Columns of each file type that reference already loaded data; sales channels are store branches
+ */
+export const UPLOAD_REFERENCES: { [fileType: string]: ColumnReference[] } = {
+  sales: [
+    { column: 'sku', fileType: 'skus' },
+    { column: 'channel', fileType: 'stores' }
+  ]
+};
+
+/**
+ * Rows of a file whose references are not found in the loaded data they point to
+ */
+export interface ReferenceCheckResult {
+  headers: string[];
+  rowCount: number;
+  orphanRowCount: number;
+  references: OrphanReferenceSummary[];
+  sampleRows: OrphanRow[];
+  truncated: boolean;
+}
+
+export interface OrphanReferenceSummary {
+  column: string;
+  fileType: string;
+  orphanRowCount: number;
+  missingValueCount: number;
+  /** Most frequent missing values, most rows first */
+  missingValues: { value: string; count: number }[];
+}
+
+export interface OrphanRow {
+  rowNumber: number;
+  values: string[];
+  /** Indexes into values of the references that were not found */
+  orphanColumns: number[];
+}
@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable, catchError, of } from 'rxjs';
+import { Task } from '../models/task.model';
 
 export interface AlgoParametersData {
   liquidationThreshold: number;
@@ -12,19 +13,6 @@ export interface AlgoParametersData {
   analysisEndDate?: string;
 }
 
-export interface Task {
-  id: number;
-  taskType: string;
-  status: string;
-  startTime: Date;
-  endTime?: Date;
-  progress: number;
-  message: string;
-  errorMessage?: string;
-  userId: string;
-  parameters?: string;
-}
-
 @Injectable({
   providedIn: 'root'
 })
@@ -0,0 +1,63 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HTTP_INTERCEPTORS, provideHttpClient, withInterceptorsFromDi } from '@angular/common/http';
+import { ChunkedUploadProgress, ChunkedUploadService } from './chunked-upload.service';
+import { MockChunkedUploadInterceptor } from '../interceptors/mock-chunked-upload.interceptor';
+
+describe('ChunkedUploadService', () => {
+  let service: ChunkedUploadService;
+  let backend: MockChunkedUploadInterceptor;
+  const file = new File(['0123456789'], 'sales.tsv', { lastModified: 1 });
+
+  beforeEach(() => {
+    localStorage.removeItem('chunkedUploadSessions');
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptorsFromDi()),
+        { provide: HTTP_INTERCEPTORS, useClass: MockChunkedUploadInterceptor, multi: true }
+      ]
+    });
+    service = TestBed.inject(ChunkedUploadService);
+    backend = TestBed.inject(HTTP_INTERCEPTORS).find(
+      interceptor => interceptor instanceof MockChunkedUploadInterceptor
+    ) as MockChunkedUploadInterceptor;
+  });
+
+  it('should upload every chunk before starting the task', () => {
+    const updates: ChunkedUploadProgress[] = [];
+
+    service.upload('sales', file, 4).subscribe(update => updates.push(update));
+
+    expect(updates.map(u => u.uploadedChunks)).toEqual([0, 1, 2, 3, 3]);
+    expect(updates.map(u => u.bytesSent)).toEqual([0, 4, 8, 10, 10]);
+    expect(updates[updates.length - 1].task?.taskType).toBe('UPLOAD_SALES');
+    expect(localStorage.getItem('chunkedUploadSessions')).toBe('{}');
+  });
+
+  it('should retry a chunk that fails', fakeAsync(() => {
+    const updates: ChunkedUploadProgress[] = [];
+    backend.failOnceChunks.add(1);
+
+    service.upload('sales', file, 4).subscribe(update => updates.push(update));
+    tick(1000);
+
+    expect(updates[updates.length - 1].task).toBeDefined();
+  }));
+
+  it('should resume from the last acknowledged chunk', () => {
+    backend.sessions.set('mock-resume', {
+      uploadId: 'mock-resume',
+      fileType: 'sales',
+      fileName: file.name,
+      fileSize: file.size,
+      chunkSize: 4,
+      totalChunks: 3,
+      receivedChunks: [0, 1]
+    });
+    localStorage.setItem('chunkedUploadSessions', JSON.stringify({ 'sales:sales.tsv:10:1': 'mock-resume' }));
+    const updates: ChunkedUploadProgress[] = [];
+
+    service.upload('sales', file, 4).subscribe(update => updates.push(update));
+
+    expect(updates.map(u => u.uploadedChunks)).toEqual([2, 3, 3]);
+  });
+});
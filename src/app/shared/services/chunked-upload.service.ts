@@ -0,0 +1,219 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpEventType } from '@angular/common/http';
+import { Observable, from, of, throwError, timer, concat, defer } from 'rxjs';
+import { catchError, concatMap, filter, map, retry, switchMap, tap } from 'rxjs/operators';
+import { UploadOptions } from './upload.service';
+import { Task } from '../models/task.model';
+
+export const CHUNK_SIZE_BYTES = 5 * 1024 * 1024;
+export const CHUNKED_UPLOAD_THRESHOLD_BYTES = 20 * 1024 * 1024;
+export const MAX_CHUNKED_UPLOAD_SIZE_MB = 2048;
+
+/**
+ * Server-side state of a chunked upload
+ */
+export interface ChunkedUploadSession {
+  uploadId: string;
+  fileType: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+}
+
+export interface ChunkedUploadProgress {
+  uploadedChunks: number;
+  totalChunks: number;
+  /** Bytes acknowledged in earlier chunks plus those sent of the chunk in flight */
+  bytesSent: number;
+  totalBytes: number;
+  progress: number;
+  task?: Task;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ChunkedUploadService {
+  private readonly baseUrl = 'http://localhost:9000/toy-iris/api/file';
+  private readonly STORAGE_KEY = 'chunkedUploadSessions';
+  private readonly maxChunkRetries = 3;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Upload a file in chunks, resuming a previous session for the same file if one exists.
+   * The async processing task is started only once every chunk is acknowledged.
+   */
+  upload(
+    fileType: string,
+    file: File,
+    chunkSize: number = CHUNK_SIZE_BYTES,
+    options: UploadOptions = {}
+  ): Observable<ChunkedUploadProgress> {
+    const fingerprint = this.getFingerprint(fileType, file);
+
+    return this.resumeOrCreateSession(fileType, file, fingerprint, chunkSize).pipe(
+      switchMap(session => {
+        const received = new Set(session.receivedChunks);
+        const pending = Array.from({ length: session.totalChunks }, (_, index) => index)
+          .filter(index => !received.has(index));
+        const chunkLength = (index: number) => Math.max(0, Math.min(session.chunkSize, file.size - index * session.chunkSize));
+        let receivedBytes = [...received].reduce((total, index) => total + chunkLength(index), 0);
+
+        const progressFor = (inFlightBytes: number = 0): ChunkedUploadProgress => {
+          const bytesSent = receivedBytes + inFlightBytes;
+          return {
+            uploadedChunks: received.size,
+            totalChunks: session.totalChunks,
+            bytesSent,
+            totalBytes: file.size,
+            progress: file.size > 0 ? Math.round((bytesSent / file.size) * 100) : 100
+          };
+        };
+
+        const chunkUploads$ = from(pending).pipe(
+          concatMap(index => this.uploadChunk(session, file, index).pipe(
+            map(loaded => {
+              if (loaded === null) {
+                received.add(index);
+                receivedBytes += chunkLength(index);
+                return progressFor();
+              }
+              return progressFor(loaded);
+            })
+          ))
+        );
+
+        const complete$ = defer(() => this.completeSession(session.uploadId, options)).pipe(
+          tap(() => this.forgetSession(fingerprint)),
+          map(task => ({ ...progressFor(), task }))
+        );
+
+        return concat(of(progressFor()), chunkUploads$, complete$);
+      }),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Get the server-side state of an upload session
+   */
+  getSession(uploadId: string): Observable<ChunkedUploadSession> {
+    return this.http.get<ChunkedUploadSession>(`${this.baseUrl}/upload/chunked/${uploadId}`);
+  }
+
+  /**
+   * Abort an upload session and discard its chunks
+   */
+  abortSession(uploadId: string): Observable<any> {
+    return this.http.delete(`${this.baseUrl}/upload/chunked/${uploadId}`)
+      .pipe(catchError(this.handleError));
+  }
+
+  /**
+   * Check whether a file is large enough to need a chunked upload
+   */
+  requiresChunkedUpload(file: File): boolean {
+    return file.size > CHUNKED_UPLOAD_THRESHOLD_BYTES;
+  }
+
+  /**
+   * Reuse the stored session for this file if the server still knows it, otherwise start a new one
+   */
+  private resumeOrCreateSession(fileType: string, file: File, fingerprint: string, chunkSize: number): Observable<ChunkedUploadSession> {
+    const storedUploadId = this.getStoredSessions()[fingerprint];
+    const create$ = defer(() => this.createSession(fileType, file, chunkSize)).pipe(
+      tap(session => this.rememberSession(fingerprint, session.uploadId))
+    );
+
+    if (!storedUploadId) {
+      return create$;
+    }
+
+    return this.getSession(storedUploadId).pipe(
+      catchError(() => {
+        // Session expired or unknown to the server - start over
+        this.forgetSession(fingerprint);
+        return create$;
+      })
+    );
+  }
+
+  /**
+   * Open a new upload session
+   */
+  private createSession(fileType: string, file: File, chunkSize: number): Observable<ChunkedUploadSession> {
+    return this.http.post<ChunkedUploadSession>(`${this.baseUrl}/upload/${fileType}/chunked`, {
+      fileName: file.name,
+      fileSize: file.size,
+      chunkSize,
+      totalChunks: Math.max(1, Math.ceil(file.size / chunkSize))
+    });
+  }
+
+  /**
+   * Upload one slice of the file, retrying with exponential backoff.
+   * Emits the bytes of the slice sent so far, then null once the server has acknowledged it.
+   */
+  private uploadChunk(session: ChunkedUploadSession, file: File, index: number): Observable<number | null> {
+    const start = index * session.chunkSize;
+    const chunk = file.slice(start, Math.min(start + session.chunkSize, file.size));
+
+    return this.http.put(`${this.baseUrl}/upload/chunked/${session.uploadId}/chunks/${index}`, chunk, {
+      headers: { 'Content-Type': 'application/octet-stream' },
+      reportProgress: true,
+      observe: 'events'
+    }).pipe(
+      filter(event => event.type === HttpEventType.UploadProgress || event.type === HttpEventType.Response),
+      map(event => event.type === HttpEventType.UploadProgress ? event.loaded : null),
+      retry({
+        count: this.maxChunkRetries,
+        delay: (_error, retryCount) => timer(1000 * Math.pow(2, retryCount - 1))
+      })
+    );
+  }
+
+  /**
+   * Tell the server all chunks are in and start the async upload task
+   */
+  private completeSession(uploadId: string, options: UploadOptions): Observable<Task> {
+    return this.http.post<Task>(`${this.baseUrl}/upload/chunked/${uploadId}/complete`, options);
+  }
+
+  private getFingerprint(fileType: string, file: File): string {
+    return `${fileType}:${file.name}:${file.size}:${file.lastModified}`;
+  }
+
+  private getStoredSessions(): { [fingerprint: string]: string } {
+    try {
+      return JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private rememberSession(fingerprint: string, uploadId: string): void {
+    const sessions = this.getStoredSessions();
+    sessions[fingerprint] = uploadId;
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(sessions));
+  }
+
+  private forgetSession(fingerprint: string): void {
+    const sessions = this.getStoredSessions();
+    delete sessions[fingerprint];
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(sessions));
+  }
+
+  /**
+   * Handle HTTP errors
+   */
+  private handleError(error: HttpErrorResponse | Error): Observable<never> {
+    const errorMessage = error instanceof HttpErrorResponse
+      ? (error.error?.message || `Chunked upload failed (status ${error.status})`)
+      : error.message;
+    console.error('Chunked upload error:', errorMessage);
+    return throwError(() => new Error(errorMessage));
+  }
+}
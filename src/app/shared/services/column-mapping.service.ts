@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import {
+  ColumnMapping,
+  ColumnMappingSuggestion,
+  ColumnMappingTemplate,
+  UPLOAD_SCHEMAS
+} from '../models/upload-schema.model';
+import { suggestColumnMapping } from '../utils/column-mapping';
+
+/**
+ * Suggests header-to-column mappings for upload files and keeps per-client mapping templates
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ColumnMappingService {
+  private readonly STORAGE_KEY = 'columnMappingTemplates';
+  private templatesSubject = new BehaviorSubject<ColumnMappingTemplate[]>(this.loadTemplates());
+  public templates$ = this.templatesSubject.asObservable();
+
+  /**
+   * Suggest a source header for each expected column of a file type
+   */
+  suggestMapping(fileType: string, headers: string[]): ColumnMappingSuggestion[] {
+    const schema = UPLOAD_SCHEMAS[fileType];
+    return schema ? suggestColumnMapping(headers, schema) : [];
+  }
+
+  /**
+   * Saved templates for a file type, most recently used first
+   */
+  getTemplates(fileType: string): ColumnMappingTemplate[] {
+    return this.templatesSubject.value
+      .filter(template => template.fileType === fileType)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Save a client's mapping for a file type, replacing any earlier one for the same client
+   */
+  saveTemplate(client: string, fileType: string, mapping: ColumnMapping): ColumnMappingTemplate {
+    const name = client.trim();
+    const existing = this.templatesSubject.value
+      .find(template => template.fileType === fileType && template.client.toLowerCase() === name.toLowerCase());
+
+    const template: ColumnMappingTemplate = {
+      id: existing?.id || `${fileType}-${Date.now()}`,
+      client: name,
+      fileType,
+      mapping: { ...mapping },
+      updatedAt: new Date().toISOString()
+    };
+
+    this.setTemplates([
+      ...this.templatesSubject.value.filter(t => t.id !== template.id),
+      template
+    ]);
+    return template;
+  }
+
+  deleteTemplate(id: string): void {
+    this.setTemplates(this.templatesSubject.value.filter(template => template.id !== id));
+  }
+
+  /**
+   * Apply a template to a file's headers; columns whose saved header is missing are left unmapped
+   */
+  applyTemplate(template: ColumnMappingTemplate, headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    Object.entries(template.mapping).forEach(([column, source]) => {
+      mapping[column] = source && headers.includes(source) ? source : null;
+    });
+    return mapping;
+  }
+
+  /**
+   * Mark a template as just used so it sorts first next time
+   */
+  touchTemplate(id: string): void {
+    this.setTemplates(this.templatesSubject.value.map(template =>
+      template.id === id ? { ...template, updatedAt: new Date().toISOString() } : template
+    ));
+  }
+
+  private setTemplates(templates: ColumnMappingTemplate[]): void {
+    this.templatesSubject.next(templates);
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(templates));
+  }
+
+  private loadTemplates(): ColumnMappingTemplate[] {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error('Error loading column mapping templates:', error);
+      return [];
+    }
+  }
+}
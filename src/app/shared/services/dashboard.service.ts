@@ -1,9 +1,17 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable, map, catchError, of } from 'rxjs';
 import { DashboardData, NoosDashboardData, NoosResult, NoosResultSummary } from '../models/dashboard-data.model';
 import { AlgorithmParameters, AlgoParametersData } from './algorithm-parameters.service';
-import { Task } from './task.service';
+import { Task } from '../models/task.model';
+
+/**
+ * Earlier run a NOOS run repeats: the task that ran it or its analytics report
+ */
+export interface NoosRunLineage {
+  parentTaskId?: number;
+  parentRunId?: number;
+}
 
 @Injectable({
   providedIn: 'root'
@@ -203,11 +211,18 @@ export class DashboardService {
   }
 
   /**
-   * Run NOOS algorithm with parameters
+   * Run NOOS algorithm with parameters, optionally linked to the run it repeats
    */
-  runNoosAlgorithm(parameters: AlgorithmParameters): Observable<Task> {
+  runNoosAlgorithm(parameters: AlgorithmParameters, lineage: NoosRunLineage = {}): Observable<Task> {
     const backendParams = this.convertToBackendParameters(parameters);
-    return this.http.post<Task>(`${this.baseUrl}/run/noos/async`, backendParams).pipe(
+    let params = new HttpParams();
+    if (lineage.parentTaskId !== undefined) {
+      params = params.set('parentTaskId', lineage.parentTaskId);
+    }
+    if (lineage.parentRunId !== undefined) {
+      params = params.set('parentRunId', lineage.parentRunId);
+    }
+    return this.http.post<Task>(`${this.baseUrl}/run/noos/async`, backendParams, { params }).pipe(
       catchError(error => {
         console.error('Error running NOOS algorithm:', error);
         throw error;
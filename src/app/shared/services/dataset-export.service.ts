@@ -0,0 +1,182 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { UploadService } from './upload.service';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions } from '../models/export.model';
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { createExportStream } from '../utils/dataset-export';
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: { description: string; accept: { [mimeType: string]: string[] } }[];
+}
+
+/**
+ * File System Access API save dialog; only some browsers provide it, so it is optional
+ */
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+  }
+}
+
+/**
+ * Where an export is written: a file picked through the File System Access API, or a browser download
+ */
+export interface ExportTarget {
+  fileName: string;
+  writable?: WritableStream<Uint8Array>;
+}
+
+export interface ExportProgress {
+  stage: 'preparing' | 'writing' | 'done';
+  progress: number;
+  bytesWritten: number;
+}
+
+/**
+ * Exports loaded datasets in TSV, CSV, JSON Lines or XLSX. The dataset is streamed from the backend
+ * through the conversion and, where the browser supports it, straight into the file on disk.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DatasetExportService {
+  // Progress is reported at most once per this many bytes
+  private readonly PROGRESS_STEP_BYTES = 1024 * 1024;
+
+  constructor(private uploadService: UploadService) {}
+
+  /**
+   * Whether exports can be streamed to disk instead of being built in memory
+   */
+  get canStreamToDisk(): boolean {
+    return typeof window !== 'undefined' && !!window.showSaveFilePicker;
+  }
+
+  getFileName(fileType: string, format: ExportFormat): string {
+    const info = EXPORT_FORMATS.find(f => f.format === format)!;
+    return `${fileType}_data${info.extension}`;
+  }
+
+  /**
+   * Ask where to save the export. Must be called straight from a user gesture.
+   * Resolves to null when the user dismisses the save dialog.
+   */
+  async chooseTarget(fileType: string, format: ExportFormat): Promise<ExportTarget | null> {
+    const fileName = this.getFileName(fileType, format);
+    const showSaveFilePicker = typeof window !== 'undefined' ? window.showSaveFilePicker : undefined;
+    if (!showSaveFilePicker) {
+      return { fileName };
+    }
+
+    const info = EXPORT_FORMATS.find(f => f.format === format)!;
+    try {
+      const handle = await showSaveFilePicker({
+        suggestedName: fileName,
+        types: [{ description: info.label, accept: { [info.mimeType]: [info.extension] } }]
+      });
+      return { fileName: handle.name, writable: await handle.createWritable() };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run the dataset's download task, then stream its result through the export conversion into the target.
+   * HttpClient buffers whole responses, so the result is read with fetch to keep it streaming.
+   */
+  exportDataset(fileType: string, options: ExportOptions, target: ExportTarget): Observable<ExportProgress> {
+    return new Observable(observer => {
+      const abort = new AbortController();
+      let finished = false;
+
+      const preparation = this.uploadService.prepareDataDownload(fileType).subscribe({
+        next: (update) => {
+          observer.next({ stage: 'preparing', progress: update.progress, bytesWritten: 0 });
+          if (update.resultUrl) {
+            this.writeExport(update.resultUrl, fileType, options, target, abort.signal, progress => observer.next(progress))
+              .then(bytesWritten => {
+                finished = true;
+                observer.next({ stage: 'done', progress: 100, bytesWritten });
+                observer.complete();
+              })
+              .catch(error => {
+                finished = true;
+                // A failure before pipeTo started (e.g. the fetch) leaves the picked file open and half created
+                target.writable?.abort().catch(() => undefined);
+                observer.error(error);
+              });
+          }
+        },
+        error: (error) => {
+          finished = true;
+          target.writable?.abort().catch(() => undefined);
+          observer.error(error);
+        }
+      });
+
+      return () => {
+        preparation.unsubscribe();
+        if (!finished) {
+          abort.abort();
+          target.writable?.abort().catch(() => undefined);
+        }
+      };
+    });
+  }
+
+  private async writeExport(
+    url: string,
+    fileType: string,
+    options: ExportOptions,
+    target: ExportTarget,
+    signal: AbortSignal,
+    onProgress: (progress: ExportProgress) => void
+  ): Promise<number> {
+    const response = await fetch(url, { signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+
+    const totalBytes = Number(response.headers.get('Content-Length')) || 0;
+    let bytesRead = 0;
+    let bytesWritten = 0;
+    let reportedAt = 0;
+
+    const source = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.length;
+        controller.enqueue(chunk);
+      }
+    }));
+
+    const output = createExportStream(source, options, UPLOAD_SCHEMAS[fileType])
+      .pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          bytesWritten += chunk.length;
+          if (bytesWritten - reportedAt >= this.PROGRESS_STEP_BYTES) {
+            reportedAt = bytesWritten;
+            onProgress({
+              stage: 'writing',
+              progress: totalBytes > 0 ? Math.min(99, Math.round((bytesRead / totalBytes) * 100)) : 0,
+              bytesWritten
+            });
+          }
+          controller.enqueue(chunk);
+        }
+      }));
+
+    if (target.writable) {
+      // pipeTo closes the file when done and aborts it on error
+      await output.pipeTo(target.writable, { signal });
+    } else {
+      const info = EXPORT_FORMATS.find(f => f.format === options.format)!;
+      const blob = await new Response(output).blob();
+      this.uploadService.triggerDownload(new Blob([blob], { type: info.mimeType }), target.fileName);
+    }
+    return bytesWritten;
+  }
+}
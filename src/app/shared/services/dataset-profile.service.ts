@@ -0,0 +1,101 @@
+import { Injectable } from '@angular/core';
+import { Observable, map, of, switchMap } from 'rxjs';
+import { UploadService } from './upload.service';
+import { FileAnalysisService } from './file-analysis.service';
+import { DatasetProfile } from '../models/upload-schema.model';
+
+export interface ProfileProgress {
+  stage: 'downloading' | 'profiling' | 'done';
+  progress: number;
+  profile?: DatasetProfile;
+}
+
+/**
+ * A stored profile and the upload task whose data it was computed from
+ */
+interface CachedProfile {
+  taskId: number | null;
+  profile: DatasetProfile;
+}
+
+/**
+ * Profiles loaded datasets from their download in a web worker. Profiles are cached per file type
+ * and reused until a newer upload completes for that type.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DatasetProfileService {
+  private readonly STORAGE_KEY = 'datasetProfiles';
+
+  constructor(
+    private uploadService: UploadService,
+    private fileAnalysisService: FileAnalysisService
+  ) {}
+
+  /**
+   * Profile of the dataset currently loaded for a file type, computed only when no cached profile matches its latest upload
+   */
+  getProfile(fileType: string, forceRefresh: boolean = false): Observable<ProfileProgress> {
+    return this.uploadService.getCurrentUploadTasks().pipe(
+      switchMap(current => {
+        const taskId = current[fileType]?.id ?? null;
+        const cached = this.loadProfiles()[fileType];
+        if (!forceRefresh && cached && cached.taskId === taskId) {
+          return of<ProfileProgress>({ stage: 'done', progress: 100, profile: cached.profile });
+        }
+        return this.computeProfile(fileType, taskId);
+      })
+    );
+  }
+
+  /**
+   * Drop the cached profile of a file type, e.g. after its data was cleared
+   */
+  invalidate(fileType: string): void {
+    const profiles = this.loadProfiles();
+    delete profiles[fileType];
+    this.saveProfiles(profiles);
+  }
+
+  invalidateAll(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  private computeProfile(fileType: string, taskId: number | null): Observable<ProfileProgress> {
+    return this.uploadService.downloadDataFileAsync(fileType).pipe(
+      switchMap(update => {
+        if (!update.blob) {
+          return of<ProfileProgress>({ stage: 'downloading', progress: update.progress });
+        }
+        return this.fileAnalysisService.profileFile(fileType, update.blob).pipe(
+          map(analysis => {
+            if (!analysis.result) {
+              return { stage: 'profiling' as const, progress: analysis.progress };
+            }
+            this.saveProfiles({ ...this.loadProfiles(), [fileType]: { taskId, profile: analysis.result } });
+            return { stage: 'done' as const, progress: 100, profile: analysis.result };
+          })
+        );
+      })
+    );
+  }
+
+  private loadProfiles(): { [fileType: string]: CachedProfile } {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.warn('Could not read cached dataset profiles:', error);
+      return {};
+    }
+  }
+
+  private saveProfiles(profiles: { [fileType: string]: CachedProfile }): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+      console.warn('Could not cache dataset profiles:', error);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { Injectable } from '@angular/core';
+import { Observable, map } from 'rxjs';
+import {
+  ColumnMapping,
+  ConvertedFile,
+  DatasetDiff,
+  DatasetProfile,
+  FilePreview,
+  FileSchema,
+  FileValidationResult,
+  ReferenceCheckResult,
+  SampleDataset,
+  SampleDatasetOptions,
+  UPLOAD_SCHEMAS
+} from '../models/upload-schema.model';
+import { FileAnalysisRequest, FileAnalysisResponse, FileAnalysisResult } from '../workers/file-analysis.messages';
+import { validateTsvFile } from '../utils/tsv-validator';
+import { buildFilePreview } from '../utils/file-preview';
+import { remapTsvFile } from '../utils/column-mapping';
+import { convertToTsv } from '../utils/file-conversion';
+import { diffDatasets } from '../utils/dataset-diff';
+import { generateSampleDataset } from '../utils/sample-data';
+import { profileDataset } from '../utils/dataset-profile';
+import { ReferenceSource, checkReferences, excludeOrphanRows } from '../utils/reference-check';
+import { FileHash, hashFile } from '../utils/file-hash';
+
+/**
+ * Runs client-side file checks in a web worker so large files don't block the UI
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FileAnalysisService {
+
+  /**
+   * Validate a TSV file against the schema for its file type
+   */
+  validateFile(fileType: string, file: File, maxErrors: number = 50): Observable<{ progress: number; result?: FileValidationResult }> {
+    const request: FileAnalysisRequest = { command: 'validate', file, fileType, maxErrors };
+
+    return this.runInWorker<FileValidationResult>(request, () =>
+      this.getSchema(fileType).then(schema => validateTsvFile(file, schema, maxErrors))
+    );
+  }
+
+  /**
+   * Parse the first rows of a file and detect its delimiter, encoding and file type
+   */
+  previewFile(file: File, maxRows: number = 300): Observable<{ progress: number; result?: FilePreview }> {
+    const request: FileAnalysisRequest = { command: 'preview', file, maxRows };
+    return this.runInWorker<FilePreview>(request, () => buildFilePreview(file, maxRows));
+  }
+
+  /**
+   * Rewrite a file into the expected columns of its file type using a column mapping.
+   * The result keeps the original file name so the upload looks the same to the backend.
+   */
+  remapFile(file: File, fileType: string, mapping: ColumnMapping): Observable<{ progress: number; result?: File }> {
+    const request: FileAnalysisRequest = { command: 'remap', file, fileType, mapping };
+    return this.runInWorker<Blob>(request, () =>
+      this.getSchema(fileType).then(schema => remapTsvFile(file, schema, mapping))
+    ).pipe(
+      map(update => ({
+        progress: update.progress,
+        result: update.result ? new File([update.result], file.name, { type: update.result.type }) : undefined
+      }))
+    );
+  }
+
+  /**
+   * Decompress and convert a CSV, XLSX, .gz or .zip file to a TSV file the backend accepts
+   */
+  convertFile(file: File): Observable<{ progress: number; result?: File; converted?: ConvertedFile }> {
+    const request: FileAnalysisRequest = { command: 'convert', file, fileName: file.name };
+    return this.runInWorker<ConvertedFile>(request, () => convertToTsv(file, file.name)).pipe(
+      map(update => ({
+        progress: update.progress,
+        result: update.result ? new File([update.result.blob], update.result.fileName, { type: update.result.blob.type }) : undefined,
+        converted: update.result
+      }))
+    );
+  }
+
+  /**
+   * Compare a new file with the dataset currently loaded for its file type, keyed by the schema's key columns
+   */
+  diffFile(
+    fileType: string,
+    current: Blob,
+    file: File,
+    maxSampleRows: number = 200
+  ): Observable<{ progress: number; result?: DatasetDiff }> {
+    const request: FileAnalysisRequest = { command: 'diff', current, file, fileType, maxSampleRows };
+    return this.runInWorker<DatasetDiff>(request, () =>
+      this.getSchema(fileType).then(schema => diffDatasets(current, file, schema, maxSampleRows))
+    );
+  }
+
+  /**
+   * Generate a referentially consistent styles/stores/skus/sales dataset as TSV files
+   */
+  generateSampleDataset(options: SampleDatasetOptions): Observable<{ progress: number; result?: { [fileType: string]: File } }> {
+    const request: FileAnalysisRequest = { command: 'sample', options };
+    return this.runInWorker<SampleDataset>(request, () => generateSampleDataset(options)).pipe(
+      map(update => ({
+        progress: update.progress,
+        result: update.result
+          ? Object.fromEntries(Object.entries(update.result).map(([fileType, blob]) =>
+            [fileType, new File([blob], `sample_${fileType}.tsv`, { type: blob.type })]))
+          : undefined
+      }))
+    );
+  }
+
+  /**
+   * Compute null/distinct counts, numeric ranges, date coverage and top values of a downloaded dataset
+   */
+  profileFile(fileType: string, file: Blob, topN: number = 10): Observable<{ progress: number; result?: DatasetProfile }> {
+    const request: FileAnalysisRequest = { command: 'profile', file, fileType, topN };
+    return this.runInWorker<DatasetProfile>(request, () =>
+      this.getSchema(fileType).then(schema => profileDataset(file, schema, topN))
+    );
+  }
+
+  /**
+   * Find rows whose referencing columns (e.g. sales.sku) have no match in the downloaded referenced data
+   */
+  checkReferences(
+    file: File,
+    references: ReferenceSource[],
+    maxSampleRows: number = 50
+  ): Observable<{ progress: number; result?: ReferenceCheckResult }> {
+    const request: FileAnalysisRequest = { command: 'references', file, references, maxSampleRows };
+    return this.runInWorker<ReferenceCheckResult>(request, () => checkReferences(file, references, maxSampleRows));
+  }
+
+  /**
+   * Copy of a file without the rows that checkReferences reports, under the same file name
+   */
+  excludeOrphanRows(file: File, references: ReferenceSource[]): Observable<{ progress: number; result?: File }> {
+    const request: FileAnalysisRequest = { command: 'excludeOrphans', file, references };
+    return this.runInWorker<Blob>(request, () => excludeOrphanRows(file, references)).pipe(
+      map(update => ({
+        progress: update.progress,
+        result: update.result ? new File([update.result], file.name, { type: update.result.type }) : undefined
+      }))
+    );
+  }
+
+  /**
+   * SHA-256 fingerprint of a file's content, computed off the main thread
+   */
+  hashFile(file: Blob): Observable<{ progress: number; result?: FileHash }> {
+    const request: FileAnalysisRequest = { command: 'hash', file };
+    return this.runInWorker<FileHash>(request, () => hashFile(file));
+  }
+
+  private getSchema(fileType: string): Promise<FileSchema> {
+    const schema = UPLOAD_SCHEMAS[fileType];
+    return schema ? Promise.resolve(schema) : Promise.reject(new Error(`No schema defined for file type '${fileType}'`));
+  }
+
+  /**
+   * Post a request to a fresh worker; falls back to the main thread where workers are unavailable.
+   * Unsubscribing terminates the worker.
+   */
+  private runInWorker<T extends FileAnalysisResult>(
+    request: FileAnalysisRequest,
+    fallback: () => Promise<T>
+  ): Observable<{ progress: number; result?: T }> {
+    return new Observable(observer => {
+      if (typeof Worker === 'undefined') {
+        fallback()
+          .then(result => {
+            observer.next({ progress: 100, result });
+            observer.complete();
+          })
+          .catch(error => observer.error(error));
+        return;
+      }
+
+      const worker = new Worker(new URL('../workers/file-analysis.worker', import.meta.url), { type: 'module' });
+
+      worker.onmessage = ({ data }: MessageEvent<FileAnalysisResponse>) => {
+        switch (data.type) {
+          case 'progress':
+            observer.next({ progress: data.progress });
+            break;
+          case 'result':
+            observer.next({ progress: 100, result: data.result as T });
+            observer.complete();
+            break;
+          case 'error':
+            observer.error(new Error(data.message));
+            break;
+        }
+      };
+      worker.onerror = (event) => {
+        observer.error(new Error(event.message || 'File analysis failed'));
+      };
+      worker.postMessage(request);
+
+      return () => worker.terminate();
+    });
+  }
+}
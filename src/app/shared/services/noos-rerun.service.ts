@@ -0,0 +1,117 @@
+import { Injectable } from '@angular/core';
+import { Router } from '@angular/router';
+import { Observable, tap, throwError } from 'rxjs';
+import { AlgorithmParameters } from './algorithm-parameters.service';
+import { DashboardService } from './dashboard.service';
+import { Task, isTaskFinished } from '../models/task.model';
+import { NoosAnalyticsReport } from '../models/report.model';
+import { RunParameter, completeRunParameters, parseRecordedParameters } from '../utils/recorded-parameters';
+
+/**
+ * A finished NOOS run and the parameters it was run with, as read back from its record
+ */
+export interface NoosRerunSource {
+  taskId?: number;
+  reportId?: number;
+  label: string;
+  executedAt: string;
+  parameters: Partial<AlgorithmParameters>;
+  missing: RunParameter[];
+}
+
+/**
+ * Re-runs NOOS executions from their recorded parameters and remembers which run each re-run repeats
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NoosRerunService {
+  private readonly STORAGE_KEY = 'noosRunLineage';
+
+  constructor(
+    private router: Router,
+    private dashboardService: DashboardService
+  ) {}
+
+  /**
+   * Re-run source for a finished NOOS task, or null when it cannot be re-run
+   */
+  fromTask(task: Task): NoosRerunSource | null {
+    if (!isTaskFinished(task) || !task.taskType.includes('NOOS')) {
+      return null;
+    }
+    const recorded = parseRecordedParameters(task.parameters);
+    return recorded && {
+      taskId: task.id,
+      label: `Task #${task.id}`,
+      executedAt: task.startTime || task.createdDate,
+      ...recorded
+    };
+  }
+
+  /**
+   * Re-run source for a NOOS analytics row, or null when its parameters cannot be read
+   */
+  fromReport(report: NoosAnalyticsReport): NoosRerunSource | null {
+    const recorded = parseRecordedParameters(report.parameters);
+    return recorded && {
+      reportId: report.id,
+      label: report.algorithmLabel,
+      executedAt: report.executionDate,
+      ...recorded
+    };
+  }
+
+  /**
+   * Open the algorithm parameters screen pre-filled with the source's parameters
+   */
+  openInParameters(source: NoosRerunSource): Promise<boolean> {
+    return this.router.navigate(['/algorithm-parameters'], { state: { noosRerun: source } });
+  }
+
+  /**
+   * Start a new run with exactly the source's parameters. Fails when the record lacks any of them.
+   */
+  runAgain(source: NoosRerunSource): Observable<Task> {
+    const parameters = completeRunParameters(source.parameters, source.label);
+    if (!parameters) {
+      return throwError(() => new Error(`${source.label} did not record ${source.missing.join(', ')}`));
+    }
+
+    return this.dashboardService.runNoosAlgorithm(parameters, { parentTaskId: source.taskId, parentRunId: source.reportId }).pipe(
+      tap(task => this.recordRerun(task.id, source))
+    );
+  }
+
+  /**
+   * Remember that a task repeats the source's run
+   */
+  recordRerun(taskId: number, source: NoosRerunSource): void {
+    this.saveLineage({ ...this.loadLineage(), [taskId]: source });
+  }
+
+  /**
+   * Run a task repeats, if it was started as a re-run from this browser
+   */
+  getOrigin(taskId: number): NoosRerunSource | null {
+    return this.loadLineage()[taskId] || null;
+  }
+
+  private loadLineage(): { [taskId: number]: NoosRerunSource } {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.warn('Could not read NOOS run lineage:', error);
+      return {};
+    }
+  }
+
+  private saveLineage(lineage: { [taskId: number]: NoosRerunSource }): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(lineage));
+    } catch (error) {
+      console.warn('Could not save NOOS run lineage:', error);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { BehaviorSubject, Observable, of, catchError } from 'rxjs';
+import { BehaviorSubject, Observable, of, catchError, filter, pairwise } from 'rxjs';
+import { RealtimeService } from './realtime.service';
 
 export interface Notification {
   id: string;
@@ -45,8 +46,20 @@ export class NotificationService {
 
   private notificationId = 0;
 
-  constructor(private http: HttpClient) {
+  constructor(
+    private http: HttpClient,
+    private realtimeService: RealtimeService
+  ) {
     this.loadNotifications();
+
+    this.realtimeService.notificationEvents$.subscribe(backend => this.receiveNotification(backend));
+    // Catch up on whatever was sent while the channel was down
+    this.realtimeService.state$
+      .pipe(
+        pairwise(),
+        filter(([previous, current]) => current === 'open' && previous === 'reconnecting')
+      )
+      .subscribe(() => this.loadNotifications());
   }
 
   /**
@@ -170,6 +183,15 @@ export class NotificationService {
       });
   }
 
+  /**
+   * Add a notification pushed over the realtime channel, replacing an earlier copy of it
+   */
+  private receiveNotification(backend: BackendNotification): void {
+    const notification = this.mapBackendToFrontend(backend);
+    const others = this.notificationsSubject.value.filter(n => n.id !== notification.id);
+    this.notificationsSubject.next([notification, ...others]);
+  }
+
   /**
    * Refresh notifications from backend
    */
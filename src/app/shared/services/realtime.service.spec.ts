@@ -0,0 +1,122 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { REALTIME_EVENT_SOURCE, RealtimeConnectionState, RealtimeService } from './realtime.service';
+import { TaskWatcherService } from './task-watcher.service';
+import { MockEventStream } from '../testing/mock-event-stream';
+import { Task, TaskStatus } from '../models/task.model';
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let stream: MockEventStream;
+
+  const task = (status: TaskStatus, progressPercentage: number = 0): Task => ({
+    id: 7,
+    taskType: 'UPLOAD_SALES',
+    status,
+    progressPercentage,
+    startTime: '2024-01-01T00:00:00',
+    createdDate: '2024-01-01T00:00:00'
+  });
+
+  beforeEach(() => {
+    stream = new MockEventStream();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: REALTIME_EVENT_SOURCE, useValue: stream.createEventSource }
+      ]
+    });
+    service = TestBed.inject(RealtimeService);
+  });
+
+  afterEach(() => service.disconnect());
+
+  it('should forward pushed task events once open', () => {
+    const tasks: Task[] = [];
+    service.taskUpdates(7).subscribe(t => tasks.push(t));
+
+    service.connect();
+    expect(service.isOpen).toBeFalse();
+    stream.current!.open();
+    stream.current!.send('task-progress', task('RUNNING', 40));
+    stream.current!.send('task-progress', { ...task('RUNNING'), id: 8 });
+
+    expect(service.isOpen).toBeTrue();
+    expect(tasks.map(t => t.progressPercentage)).toEqual([40]);
+  });
+
+  it('should reconnect after the connection drops', fakeAsync(() => {
+    const states: RealtimeConnectionState[] = [];
+    service.state$.subscribe(state => states.push(state));
+
+    service.connect();
+    stream.current!.open();
+    stream.current!.fail();
+    expect(stream.connections[0].closed).toBeTrue();
+
+    tick(2400);
+    stream.current!.open();
+
+    expect(stream.connections.length).toBe(2);
+    expect(states).toEqual(['disconnected', 'connecting', 'open', 'reconnecting', 'reconnecting', 'open']);
+  }));
+
+  it('should let task watchers follow pushed updates instead of polling while open', fakeAsync(() => {
+    const http = TestBed.inject(HttpTestingController);
+    const watcher = TestBed.inject(TaskWatcherService);
+    const snapshots: Task[] = [];
+    let completed = false;
+
+    service.connect();
+    stream.current!.open();
+    watcher.watch(7).subscribe({ next: t => snapshots.push(t), complete: () => completed = true });
+    http.expectOne('http://localhost:9000/toy-iris/api/tasks/7').flush(task('RUNNING', 10));
+    tick(60000);
+    http.expectNone('http://localhost:9000/toy-iris/api/tasks/7');
+
+    stream.current!.send('task-progress', task('RUNNING', 60));
+    stream.current!.send('task-progress', task('COMPLETED', 100));
+
+    expect(snapshots.map(t => t.progressPercentage)).toEqual([10, 60, 100]);
+    expect(completed).toBeTrue();
+    http.verify();
+  }));
+
+  it('should poll a watched task when the open channel stops pushing its updates', fakeAsync(() => {
+    const http = TestBed.inject(HttpTestingController);
+    const watcher = TestBed.inject(TaskWatcherService);
+    const url = 'http://localhost:9000/toy-iris/api/tasks/7';
+    const snapshots: Task[] = [];
+
+    service.connect();
+    stream.current!.open();
+    watcher.watch(7, { liveIdleTimeoutMs: 5000, initialDelayMs: 1000, jitter: 0 }).subscribe(t => snapshots.push(t));
+    http.expectOne(url).flush(task('RUNNING', 10));
+    tick(4999);
+    http.expectNone(url);
+    tick(1);
+    http.expectOne(url).flush(task('COMPLETED', 100));
+
+    expect(snapshots.map(t => t.progressPercentage)).toEqual([10, 100]);
+    http.verify();
+  }));
+
+  it('should stop watching a live task after the maximum duration', fakeAsync(() => {
+    const http = TestBed.inject(HttpTestingController);
+    const watcher = TestBed.inject(TaskWatcherService);
+    let error: Error | undefined;
+
+    service.connect();
+    stream.current!.open();
+    watcher.watch(7, { maxDurationMs: 60000 }).subscribe({ error: e => error = e });
+    http.expectOne('http://localhost:9000/toy-iris/api/tasks/7').flush(task('RUNNING', 10));
+    tick(30000);
+    stream.current!.send('task-progress', task('RUNNING', 50));
+    tick(30000);
+
+    expect(error?.message).toContain('taking too long');
+    expect(watcher.activeWatchCount).toBe(0);
+  }));
+});
@@ -0,0 +1,129 @@
+import { Injectable, InjectionToken, Inject } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription, filter, timer } from 'rxjs';
+import { Task } from '../models/task.model';
+import { DEFAULT_TASK_POLLING, TaskPollingOptions, nextPollDelay } from '../utils/task-polling';
+import type { BackendNotification } from './notification.service';
+
+/**
+ * 'open' while events are flowing; anything else means consumers should poll
+ */
+export type RealtimeConnectionState = 'disconnected' | 'connecting' | 'open' | 'reconnecting' | 'unavailable';
+
+/**
+ * Creates the server-sent events connection; replaced in tests with a stand-in server
+ */
+export const REALTIME_EVENT_SOURCE = new InjectionToken<(url: string) => EventSource | null>('REALTIME_EVENT_SOURCE', {
+  providedIn: 'root',
+  factory: () => (url: string) => typeof EventSource === 'undefined' ? null : new EventSource(url)
+});
+
+/**
+ * Reconnect delays: start quickly, then back off to once a minute while the server stays away
+ */
+const RECONNECT_BACKOFF: TaskPollingOptions = {
+  ...DEFAULT_TASK_POLLING,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000,
+  backoffFactor: 2
+};
+
+/**
+ * Server-sent events channel pushing task progress and notifications.
+ * Reconnects on its own; while it is not open, callers fall back to polling.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RealtimeService {
+  private readonly streamUrl = 'http://localhost:9000/toy-iris/api/events/stream';
+  private stateSubject = new BehaviorSubject<RealtimeConnectionState>('disconnected');
+  private taskSubject = new Subject<Task>();
+  private notificationSubject = new Subject<BackendNotification>();
+  private source: EventSource | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer?: Subscription;
+
+  public state$ = this.stateSubject.asObservable();
+  public taskEvents$ = this.taskSubject.asObservable();
+  public notificationEvents$ = this.notificationSubject.asObservable();
+
+  constructor(@Inject(REALTIME_EVENT_SOURCE) private createEventSource: (url: string) => EventSource | null) {}
+
+  get isOpen(): boolean {
+    return this.stateSubject.value === 'open';
+  }
+
+  /**
+   * Open the channel if it is not already open or being opened
+   */
+  connect(): void {
+    if (this.source || this.reconnectTimer) {
+      return;
+    }
+
+    const source = this.createEventSource(this.streamUrl);
+    if (!source) {
+      this.stateSubject.next('unavailable');
+      return;
+    }
+
+    this.source = source;
+    this.stateSubject.next(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    source.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.stateSubject.next('open');
+    };
+    source.onerror = () => {
+      // EventSource retries some failures by itself but gives up on others; own reconnection either way
+      this.closeSource();
+      this.scheduleReconnect();
+    };
+    source.addEventListener('task-progress', event => this.emit(event, this.taskSubject));
+    source.addEventListener('notification', event => this.emit(event, this.notificationSubject));
+  }
+
+  /**
+   * Close the channel and stop reconnecting
+   */
+  disconnect(): void {
+    this.reconnectTimer?.unsubscribe();
+    this.reconnectTimer = undefined;
+    this.reconnectAttempts = 0;
+    this.closeSource();
+    this.stateSubject.next('disconnected');
+  }
+
+  /**
+   * Pushed snapshots of one task
+   */
+  taskUpdates(taskId: number): Observable<Task> {
+    return this.taskEvents$.pipe(filter(task => task.id === taskId));
+  }
+
+  private emit<T>(event: Event, subject: Subject<T>): void {
+    try {
+      subject.next(JSON.parse((event as MessageEvent<string>).data));
+    } catch (error) {
+      console.warn(`Ignoring malformed ${event.type} event:`, error);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = nextPollDelay(this.reconnectAttempts++, RECONNECT_BACKOFF);
+    this.stateSubject.next('reconnecting');
+    this.reconnectTimer = timer(delay).subscribe(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    });
+  }
+
+  private closeSource(): void {
+    if (this.source) {
+      this.source.onopen = null;
+      this.source.onerror = null;
+      this.source.close();
+      this.source = null;
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TaskWatcherService } from './task-watcher.service';
+import { Task, TaskStatus } from '../models/task.model';
+
+describe('TaskWatcherService', () => {
+  let service: TaskWatcherService;
+  let http: HttpTestingController;
+  const url = 'http://localhost:9000/toy-iris/api/tasks/7';
+  const options = { initialDelayMs: 1000, maxDelayMs: 4000, backoffFactor: 2, jitter: 0, maxConsecutiveErrors: 2 };
+
+  const task = (status: TaskStatus, progressPercentage: number = 0): Task => ({
+    id: 7,
+    taskType: 'UPLOAD_SALES',
+    status,
+    progressPercentage,
+    startTime: '2024-01-01T00:00:00',
+    createdDate: '2024-01-01T00:00:00'
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(TaskWatcherService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => http.verify());
+
+  it('should emit changes, back off while unchanged and complete when the task finishes', fakeAsync(() => {
+    const snapshots: Task[] = [];
+    let completed = false;
+
+    service.watch(7, options).subscribe({ next: t => snapshots.push(t), complete: () => completed = true });
+    http.expectOne(url).flush(task('RUNNING', 10));
+    tick(1000);
+    http.expectOne(url).flush(task('RUNNING', 10));
+    tick(1999);
+    http.expectNone(url);
+    tick(1);
+    http.expectOne(url).flush(task('COMPLETED', 100));
+
+    expect(snapshots.map(t => t.progressPercentage)).toEqual([10, 100]);
+    expect(completed).toBeTrue();
+    expect(service.activeWatchCount).toBe(0);
+  }));
+
+  it('should share one poll between watchers of the same task', fakeAsync(() => {
+    const first: Task[] = [];
+    const second: Task[] = [];
+
+    const subscription = service.watch(7, options).subscribe(t => first.push(t));
+    http.expectOne(url).flush(task('RUNNING', 10));
+    service.watch(7, options).subscribe(t => second.push(t));
+    tick(1000);
+    http.expectOne(url).flush(task('RUNNING', 50));
+
+    expect(first.length).toBe(2);
+    expect(second.map(t => t.progressPercentage)).toEqual([10, 50]);
+
+    subscription.unsubscribe();
+    tick(1000);
+    http.expectOne(url).flush(task('CANCELLED', 50));
+    expect(service.activeWatchCount).toBe(0);
+  }));
+
+  it('should give up once the error budget is spent', fakeAsync(() => {
+    let error: Error | undefined;
+
+    service.watch(7, options).subscribe({ error: e => error = e });
+    http.expectOne(url).flush(null, { status: 503, statusText: 'Unavailable' });
+    tick(2000);
+    http.expectOne(url).flush(null, { status: 503, statusText: 'Unavailable' });
+
+    expect(error?.message).toContain('2 failed status checks');
+  }));
+});
@@ -0,0 +1,141 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import {
+  EMPTY, Observable, ReplaySubject, Subscription, catchError, distinctUntilChanged, finalize, map, merge, share, switchMap,
+  takeWhile, timeout, timer
+} from 'rxjs';
+import { Task, isTaskFinished } from '../models/task.model';
+import { DEFAULT_TASK_POLLING, TaskPollingOptions, nextPollDelay } from '../utils/task-polling';
+import { RealtimeService } from './realtime.service';
+
+/**
+ * Follows async tasks over the realtime channel, polling while it is not open,
+ * and shares one watch per task between all of its watchers
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TaskWatcherService {
+  private readonly baseUrl = 'http://localhost:9000/toy-iris/api';
+  private readonly watches = new Map<number, Observable<Task>>();
+
+  constructor(
+    private http: HttpClient,
+    private realtimeService: RealtimeService
+  ) {}
+
+  /**
+   * Snapshots of a task each time it changes, completing after the one in which it finished.
+   * Errors once the task has been watched for maxDurationMs, whether it was followed live or polled.
+   * Polling backs off while the task is unchanged and errors once maxConsecutiveErrors is exceeded.
+   * Watching a task that is already watched joins the running watch, whose options were set by the first watcher.
+   */
+  watch(taskId: number, options: Partial<TaskPollingOptions> = {}): Observable<Task> {
+    let watch = this.watches.get(taskId);
+    if (!watch) {
+      const pollingOptions = { ...DEFAULT_TASK_POLLING, ...options };
+      const updates$ = this.realtimeService.state$.pipe(
+        map(state => state === 'open'),
+        distinctUntilChanged(),
+        switchMap(live => live ? this.listen(taskId, pollingOptions) : this.poll(taskId, pollingOptions))
+      );
+      const expired$ = timer(pollingOptions.maxDurationMs).pipe(
+        map((): Task => {
+          throw new Error(`Task ${taskId} is taking too long - stopped watching after ${Math.round(pollingOptions.maxDurationMs / 60000)} minutes`);
+        })
+      );
+      watch = merge(updates$, expired$).pipe(
+        distinctUntilChanged((previous, current) => JSON.stringify(previous) === JSON.stringify(current)),
+        takeWhile(task => !isTaskFinished(task), true),
+        finalize(() => this.watches.delete(taskId)),
+        share({
+          connector: () => new ReplaySubject<Task>(1),
+          resetOnError: true,
+          resetOnComplete: true,
+          resetOnRefCountZero: true
+        })
+      );
+      this.watches.set(taskId, watch);
+    }
+    return watch;
+  }
+
+  /**
+   * Number of tasks currently being watched
+   */
+  get activeWatchCount(): number {
+    return this.watches.size;
+  }
+
+  /**
+   * Pushed snapshots of a task, plus one fetched snapshot since events sent before listening are not replayed.
+   * When nothing is pushed for liveIdleTimeoutMs the channel is taken to have lost the task and polling
+   * starts alongside it.
+   */
+  private listen(taskId: number, options: TaskPollingOptions): Observable<Task> {
+    const current$ = this.http.get<Task>(`${this.baseUrl}/tasks/${taskId}`).pipe(
+      catchError(error => {
+        console.warn(`Could not fetch task ${taskId}, waiting for pushed updates:`, error);
+        return EMPTY;
+      })
+    );
+    const pushed$ = this.realtimeService.taskUpdates(taskId);
+    return merge(pushed$, current$).pipe(
+      timeout({
+        each: options.liveIdleTimeoutMs,
+        with: () => {
+          console.warn(`No pushed updates for task ${taskId} in ${Math.round(options.liveIdleTimeoutMs / 1000)}s, polling instead`);
+          return merge(pushed$, this.poll(taskId, options));
+        }
+      })
+    );
+  }
+
+  private poll(taskId: number, options: TaskPollingOptions): Observable<Task> {
+    return new Observable<Task>(observer => {
+      let idlePolls = 0;
+      let consecutiveErrors = 0;
+      let lastSnapshot: string | null = null;
+      let pending: Subscription | undefined;
+
+      const scheduleNext = () => {
+        pending = timer(nextPollDelay(idlePolls, options)).subscribe(() => fetchTask());
+      };
+
+      const fetchTask = () => {
+        pending = this.http.get<Task>(`${this.baseUrl}/tasks/${taskId}`).subscribe({
+          next: (task) => {
+            consecutiveErrors = 0;
+            const snapshot = JSON.stringify(task);
+            if (snapshot !== lastSnapshot) {
+              lastSnapshot = snapshot;
+              idlePolls = 0;
+              observer.next(task);
+            } else {
+              idlePolls++;
+            }
+
+            if (isTaskFinished(task)) {
+              observer.complete();
+            } else {
+              scheduleNext();
+            }
+          },
+          error: (error) => {
+            consecutiveErrors++;
+            console.warn(`Polling task ${taskId} failed (${consecutiveErrors}/${options.maxConsecutiveErrors}):`, error);
+            if (consecutiveErrors >= options.maxConsecutiveErrors) {
+              observer.error(new Error(`Lost contact with task ${taskId} after ${consecutiveErrors} failed status checks`));
+              return;
+            }
+            idlePolls++;
+            scheduleNext();
+          }
+        });
+      };
+
+      fetchTask();
+      return () => pending?.unsubscribe();
+    });
+  }
+}
@@ -1,27 +1,8 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
 import { Observable, catchError, of } from 'rxjs';
-
-export interface Task {
-  id: number;
-  taskType: string;
-  status: string;
-  startTime: Date;
-  endTime?: Date;
-  progress: number;
-  message: string;
-  errorMessage?: string;
-  userId: string;
-  parameters?: string;
-}
-
-export interface TaskStats {
-  total: number;
-  running: number;
-  completed: number;
-  failed: number;
-  cancelled: number;
-}
+import { Task, TaskStats } from '../models/task.model';
+import { RealtimeService } from './realtime.service';
 
 @Injectable({
   providedIn: 'root'
@@ -29,7 +10,22 @@ export interface TaskStats {
 export class TaskService {
   private readonly baseUrl = 'http://localhost:9000/toy-iris/api';
 
-  constructor(private http: HttpClient) {}
+  /** Task snapshots pushed over the realtime channel while it is open */
+  readonly taskUpdates$: Observable<Task>;
+
+  constructor(
+    private http: HttpClient,
+    private realtimeService: RealtimeService
+  ) {
+    this.taskUpdates$ = this.realtimeService.taskEvents$;
+  }
+
+  /**
+   * Whether pushed updates are arriving, so callers can skip their own refresh timers
+   */
+  get isLive(): boolean {
+    return this.realtimeService.isOpen;
+  }
 
   /**
    * Get all tasks
@@ -86,13 +82,20 @@ export class TaskService {
   }
 
   /**
-   * Cancel a task
+   * URL of a task's result file
+   */
+  getTaskResultUrl(task: Task): string {
+    return task.resultUrl || `${this.baseUrl}/tasks/${task.id}/result`;
+  }
+
+  /**
+   * Cancel a task; errors are passed on so callers can tell a refused cancel from an accepted one
    */
   cancelTask(taskId: number): Observable<any> {
     return this.http.post(`${this.baseUrl}/tasks/${taskId}/cancel`, {}).pipe(
       catchError(error => {
         console.error(`Error cancelling task ${taskId}:`, error);
-        return of({});
+        throw error;
       })
     );
   }
@@ -0,0 +1,276 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, distinctUntilChanged, filter, map, takeWhile } from 'rxjs';
+import { UploadMode, UploadOptions, UploadProgressUpdate, UploadService, UploadTaskError } from './upload.service';
+import { Task } from '../models/task.model';
+import { TransferProgress } from '../utils/transfer-rate';
+import { NotificationService } from './notification.service';
+
+export type ManagedUploadStatus = 'uploading' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * An upload owned by the manager, from file transfer until its task finishes
+ */
+export interface ManagedUpload {
+  fileType: string;
+  fileName: string;
+  status: ManagedUploadStatus;
+  progress: number;
+  message?: string;
+  taskId?: number;
+  mode?: UploadMode;
+  errorMessage?: string;
+  hasValidationReport?: boolean;
+  task?: Task;
+  /** Bytes sent, throughput and ETA while the file is being transferred */
+  transfer?: TransferProgress;
+}
+
+/**
+ * What is kept in storage to pick an upload task back up after a reload
+ */
+interface PersistedUpload {
+  fileType: string;
+  fileName: string;
+  taskId: number;
+  mode?: UploadMode;
+}
+
+/**
+ * Owns in-flight uploads at the application level so they keep running across navigation.
+ * Task ids are persisted so polling resumes after a reload; completion raises a notification wherever the user is.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UploadManagerService {
+  private readonly STORAGE_KEY = 'activeUploadTasks';
+
+  private uploadsSubject = new BehaviorSubject<ManagedUpload[]>([]);
+  public uploads$ = this.uploadsSubject.asObservable();
+
+  private subscriptions = new Map<string, Subscription>();
+  private resumed = false;
+
+  constructor(
+    private uploadService: UploadService,
+    private notificationService: NotificationService
+  ) {}
+
+  get uploads(): ManagedUpload[] {
+    return this.uploadsSubject.value;
+  }
+
+  /**
+   * Whether an upload of this file type is still transferring or processing
+   */
+  isActive(fileType: string): boolean {
+    const upload = this.uploads.find(u => u.fileType === fileType);
+    return !!upload && (upload.status === 'uploading' || upload.status === 'processing');
+  }
+
+  /**
+   * Start uploading a file; any finished upload of the same type is replaced.
+   * Returns the upload's states until it finishes, or null when one of this type is already running.
+   */
+  startUpload(fileType: string, file: File, options: UploadOptions = {}): Observable<ManagedUpload> | null {
+    if (this.isActive(fileType)) {
+      console.warn(`An upload of ${fileType} is already in progress`);
+      return null;
+    }
+
+    this.setUpload({
+      fileType,
+      fileName: file.name,
+      status: 'uploading',
+      progress: 0,
+      message: 'Starting upload...',
+      mode: options.mode
+    });
+    this.track(fileType, this.uploadService.uploadFileAsync(fileType, file, options));
+    return this.watch(fileType);
+  }
+
+  /**
+   * States of the current upload of a file type, completing once it has finished.
+   * Unsubscribing only stops watching; the upload keeps running.
+   */
+  watch(fileType: string): Observable<ManagedUpload> {
+    return this.uploads$.pipe(
+      map(uploads => uploads.find(upload => upload.fileType === fileType)),
+      filter((upload): upload is ManagedUpload => !!upload),
+      distinctUntilChanged(),
+      takeWhile(upload => upload.status === 'uploading' || upload.status === 'processing', true)
+    );
+  }
+
+  /**
+   * Resume polling the upload tasks persisted by a previous page load
+   */
+  resume(): void {
+    if (this.resumed) {
+      return;
+    }
+    this.resumed = true;
+
+    this.loadPersisted().forEach(persisted => {
+      this.setUpload({
+        fileType: persisted.fileType,
+        fileName: persisted.fileName,
+        status: 'processing',
+        progress: 0,
+        message: 'Reconnecting to upload task...',
+        taskId: persisted.taskId,
+        mode: persisted.mode
+      });
+      this.track(persisted.fileType, this.uploadService.watchUploadTask(persisted.taskId, persisted.fileType));
+    });
+  }
+
+  /**
+   * Cancel an upload: the server task if one was started, otherwise the file transfer.
+   * Unsubscribing aborts the request in flight, so the server never starts a task for it.
+   */
+  cancel(fileType: string): Observable<any> | null {
+    const upload = this.uploads.find(u => u.fileType === fileType);
+    if (!upload || !this.isActive(fileType)) {
+      return null;
+    }
+
+    if (upload.taskId) {
+      // Polling picks up the CANCELLED status and finishes the upload
+      return this.uploadService.cancelTask(upload.taskId);
+    }
+
+    this.subscriptions.get(fileType)?.unsubscribe();
+    this.subscriptions.delete(fileType);
+    this.updateUpload(fileType, { status: 'cancelled', message: 'Upload cancelled', transfer: undefined });
+    return null;
+  }
+
+  /**
+   * Forget a finished upload
+   */
+  dismiss(fileType: string): void {
+    if (!this.isActive(fileType)) {
+      this.uploadsSubject.next(this.uploads.filter(u => u.fileType !== fileType));
+    }
+  }
+
+  private track(fileType: string, source: Observable<UploadProgressUpdate>): void {
+    this.subscriptions.get(fileType)?.unsubscribe();
+
+    const subscription = source.subscribe({
+      next: (update) => {
+        if (update.task) {
+          this.updateUpload(fileType, {
+            status: 'processing',
+            progress: update.progress,
+            message: update.task.progressMessage || `Processing... ${update.progress}%`,
+            taskId: update.task.id,
+            task: update.task,
+            transfer: undefined
+          });
+          this.persist();
+        } else if (update.transfer) {
+          this.updateUpload(fileType, {
+            progress: update.progress,
+            message: this.getTransferMessage(update),
+            transfer: update.transfer
+          });
+        }
+
+        if (update.completed) {
+          this.onCompleted(fileType, update.task);
+        }
+      },
+      error: (error) => {
+        console.error(`Upload of ${fileType} failed:`, error);
+        this.subscriptions.delete(fileType);
+        this.onFailed(fileType, error);
+      },
+      complete: () => {
+        this.subscriptions.delete(fileType);
+      }
+    });
+    this.subscriptions.set(fileType, subscription);
+  }
+
+  /**
+   * Transfer status line, naming the chunk in flight for chunked uploads
+   */
+  private getTransferMessage(update: UploadProgressUpdate): string {
+    const message = this.uploadService.getTransferMessage(update.transfer!);
+    if (!update.totalChunks || update.uploadedChunks === update.totalChunks) {
+      return message;
+    }
+    return `Chunk ${update.uploadedChunks! + 1} of ${update.totalChunks} · ${message}`;
+  }
+
+  private onCompleted(fileType: string, task?: Task): void {
+    const upload = this.uploads.find(u => u.fileType === fileType);
+    this.updateUpload(fileType, { status: 'completed', progress: 100, message: 'Upload completed successfully!', task });
+    this.persist();
+
+    const records = task?.totalRecords ? ` (${task.totalRecords.toLocaleString()} records)` : '';
+    this.notificationService.success('Upload Complete', `${upload?.fileName || fileType} was loaded into ${fileType}${records}`);
+  }
+
+  private onFailed(fileType: string, error: unknown): void {
+    const upload = this.uploads.find(u => u.fileType === fileType);
+    const task = error instanceof UploadTaskError ? error.task : undefined;
+    const message = error instanceof Error && error.message ? error.message : 'Upload failed';
+    const cancelled = task?.status === 'CANCELLED' || message === 'Upload was cancelled';
+
+    this.updateUpload(fileType, {
+      status: cancelled ? 'cancelled' : 'failed',
+      progress: 0,
+      message: '',
+      errorMessage: message,
+      taskId: task?.id ?? upload?.taskId,
+      // Only tasks that recorded row errors leave a report behind to download
+      hasValidationReport: (task?.errorCount ?? 0) > 0
+    });
+    this.persist();
+
+    if (cancelled) {
+      this.notificationService.info('Upload Cancelled', `The ${fileType} upload was cancelled`);
+    } else {
+      this.notificationService.error('Upload Failed', `${upload?.fileName || fileType}: ${message}`);
+    }
+  }
+
+  private setUpload(upload: ManagedUpload): void {
+    this.uploadsSubject.next([...this.uploads.filter(u => u.fileType !== upload.fileType), upload]);
+  }
+
+  private updateUpload(fileType: string, changes: Partial<ManagedUpload>): void {
+    this.uploadsSubject.next(
+      this.uploads.map(upload => upload.fileType === fileType ? { ...upload, ...changes } : upload)
+    );
+  }
+
+  /**
+   * Store the task ids of uploads that are still processing on the server
+   */
+  private persist(): void {
+    const persisted: PersistedUpload[] = this.uploads
+      .filter(upload => upload.status === 'processing' && upload.taskId)
+      .map(upload => ({ fileType: upload.fileType, fileName: upload.fileName, taskId: upload.taskId!, mode: upload.mode }));
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(persisted));
+    } catch (error) {
+      console.warn('Failed to save upload tasks to localStorage:', error);
+    }
+  }
+
+  private loadPersisted(): PersistedUpload[] {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.warn('Failed to read upload tasks from localStorage:', error);
+      return [];
+    }
+  }
+}
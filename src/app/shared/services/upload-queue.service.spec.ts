@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { UploadQueueReport, UploadQueueService } from './upload-queue.service';
+import { ManagedUpload, UploadManagerService } from './upload-manager.service';
+
+describe('UploadQueueService', () => {
+  let service: UploadQueueService;
+  let uploads: { [fileType: string]: Subject<ManagedUpload> };
+  let started: string[];
+
+  const file = (fileType: string) => ({ fileType, file: new File(['x'], `${fileType}.tsv`) });
+
+  /**
+   * Finish the manager upload of a file type with the given outcome
+   */
+  const finish = (fileType: string, status: 'completed' | 'failed', errorMessage?: string): void => {
+    uploads[fileType].next({ fileType, fileName: `${fileType}.tsv`, status, progress: 100, taskId: 1, errorMessage });
+    uploads[fileType].complete();
+  };
+
+  beforeEach(() => {
+    uploads = {};
+    started = [];
+    const uploadManager = {
+      startUpload: (fileType: string) => {
+        started.push(fileType);
+        uploads[fileType] = new Subject<ManagedUpload>();
+        return uploads[fileType].asObservable();
+      }
+    };
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: UploadManagerService, useValue: uploadManager }]
+    });
+    service = TestBed.inject(UploadQueueService);
+  });
+
+  it('should upload in dependency order, starting each file only after the previous one finishes', () => {
+    service.start([file('sales'), file('skus'), file('stores'), file('styles')], {});
+
+    expect(started).toEqual(['styles']);
+    finish('styles', 'completed');
+    expect(started).toEqual(['styles', 'stores']);
+    finish('stores', 'completed');
+    finish('skus', 'completed');
+    expect(started).toEqual(['styles', 'stores', 'skus', 'sales']);
+    finish('sales', 'completed');
+
+    expect(service.isRunning).toBeFalse();
+  });
+
+  it('should skip the dependents of a failed upload and report why', () => {
+    let report: UploadQueueReport | null = null;
+    service.report$.subscribe(r => report = r);
+
+    service.start([file('styles'), file('stores'), file('skus'), file('sales')], {});
+    finish('styles', 'failed', 'Invalid header');
+    finish('stores', 'completed');
+
+    expect(started).toEqual(['styles', 'stores']);
+    expect(report!).toEqual({
+      completed: ['stores'],
+      failed: [{ fileType: 'styles', reason: 'Invalid header' }],
+      skipped: [
+        { fileType: 'skus', reason: 'Skipped because the styles upload failed' },
+        { fileType: 'sales', reason: 'Skipped because the styles upload failed' }
+      ]
+    });
+  });
+
+  it('should skip a file whose prerequisite is neither queued nor loaded', () => {
+    let report: UploadQueueReport | null = null;
+    service.report$.subscribe(r => report = r);
+
+    service.start([file('skus')], { styles: { exists: false, count: 0 } });
+
+    expect(started).toEqual([]);
+    expect(report!.skipped).toEqual([{ fileType: 'skus', reason: 'Skipped because styles data is not loaded' }]);
+  });
+
+  it('should start a file whose prerequisites are already loaded', () => {
+    service.start([file('skus')], { styles: { exists: true, count: 10 } });
+
+    expect(started).toEqual(['skus']);
+  });
+});
@@ -0,0 +1,182 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { UploadStatus, UPLOAD_DEPENDENCIES, UPLOAD_ORDER } from './upload.service';
+import { UploadManagerService } from './upload-manager.service';
+
+export type UploadQueueItemStatus = 'queued' | 'uploading' | 'completed' | 'failed' | 'skipped';
+
+export interface UploadQueueItem {
+  fileType: string;
+  file: File;
+  status: UploadQueueItemStatus;
+  progress: number;
+  message?: string;
+  taskId?: number;
+}
+
+/**
+ * Summary of a finished (or stopped) batch
+ */
+export interface UploadQueueReport {
+  completed: string[];
+  failed: { fileType: string; reason: string }[];
+  skipped: { fileType: string; reason: string }[];
+}
+
+/**
+ * Runs a batch of uploads one after another in dependency order (styles → stores → skus → sales).
+ * Each upload starts only once its prerequisites' tasks have COMPLETED; a failure stops the chain.
+ * The uploads themselves run in the upload manager, so the one in flight survives navigation and reloads.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UploadQueueService {
+  private queueSubject = new BehaviorSubject<UploadQueueItem[]>([]);
+  public queue$ = this.queueSubject.asObservable();
+
+  private reportSubject = new BehaviorSubject<UploadQueueReport | null>(null);
+  public report$ = this.reportSubject.asObservable();
+
+  private statusData: UploadStatus = {};
+  private currentUpload?: Subscription;
+
+  constructor(private uploadManagerService: UploadManagerService) {}
+
+  /**
+   * Whether a batch is currently in progress
+   */
+  get isRunning(): boolean {
+    return this.queueSubject.value.some(item => item.status === 'queued' || item.status === 'uploading');
+  }
+
+  /**
+   * Queue a set of files (one per file type) and start processing
+   */
+  start(files: { fileType: string; file: File }[], statusData: UploadStatus): void {
+    if (this.isRunning) {
+      console.warn('Upload queue is already running');
+      return;
+    }
+
+    this.statusData = statusData;
+    this.reportSubject.next(null);
+    this.queueSubject.next(
+      [...files]
+        .sort((a, b) => UPLOAD_ORDER.indexOf(a.fileType) - UPLOAD_ORDER.indexOf(b.fileType))
+        .map(({ fileType, file }) => ({ fileType, file, status: 'queued', progress: 0 }))
+    );
+    this.processNext();
+  }
+
+  /**
+   * Stop the batch; the running upload is left to finish in the upload manager
+   */
+  stop(): void {
+    this.currentUpload?.unsubscribe();
+    this.currentUpload = undefined;
+    this.queueSubject.value
+      .filter(item => item.status === 'queued' || item.status === 'uploading')
+      .forEach(item => this.updateItem(item.fileType, {
+        status: 'skipped',
+        message: item.status === 'uploading' ? 'Batch stopped; this upload continues in the background' : 'Batch stopped by user'
+      }));
+    this.finish();
+  }
+
+  /**
+   * Clear a finished batch
+   */
+  clear(): void {
+    if (!this.isRunning) {
+      this.queueSubject.next([]);
+      this.reportSubject.next(null);
+    }
+  }
+
+  /**
+   * Start the next queued item, or skip it if a prerequisite can no longer be satisfied
+   */
+  private processNext(): void {
+    const next = this.queueSubject.value.find(item => item.status === 'queued');
+    if (!next) {
+      this.finish();
+      return;
+    }
+
+    const blocker = this.findBlockingDependency(next.fileType);
+    if (blocker) {
+      this.updateItem(next.fileType, { status: 'skipped', message: blocker });
+      this.processNext();
+      return;
+    }
+
+    const upload$ = this.uploadManagerService.startUpload(next.fileType, next.file);
+    if (!upload$) {
+      this.updateItem(next.fileType, { status: 'failed', message: `An upload of ${next.fileType} is already in progress` });
+      this.processNext();
+      return;
+    }
+
+    this.updateItem(next.fileType, { status: 'uploading', progress: 0, message: 'Starting upload...' });
+    this.currentUpload = upload$.subscribe({
+      next: (upload) => {
+        switch (upload.status) {
+          case 'completed':
+            this.updateItem(next.fileType, { status: 'completed', progress: 100, message: 'Upload completed', taskId: upload.taskId });
+            this.statusData = { ...this.statusData, [next.fileType]: { exists: true, count: upload.task?.totalRecords || 0 } };
+            break;
+          case 'failed':
+          case 'cancelled':
+            this.updateItem(next.fileType, { status: 'failed', message: upload.errorMessage, taskId: upload.taskId });
+            break;
+          default:
+            this.updateItem(next.fileType, { progress: upload.progress, message: upload.message, taskId: upload.taskId });
+        }
+      },
+      complete: () => this.processNext()
+    });
+  }
+
+  /**
+   * Explain why a file type cannot be uploaded yet, or return null if its prerequisites are met
+   */
+  private findBlockingDependency(fileType: string): string | null {
+    const queue = this.queueSubject.value;
+
+    for (const dependency of UPLOAD_DEPENDENCIES[fileType] || []) {
+      const queued = queue.find(item => item.fileType === dependency);
+      if (queued) {
+        if (queued.status === 'failed') {
+          return `Skipped because the ${dependency} upload failed`;
+        }
+        if (queued.status === 'skipped') {
+          return `Skipped because the ${dependency} upload was skipped`;
+        }
+      } else if (!this.statusData[dependency]?.exists) {
+        return `Skipped because ${dependency} data is not loaded`;
+      }
+    }
+
+    return null;
+  }
+
+  private updateItem(fileType: string, changes: Partial<UploadQueueItem>): void {
+    this.queueSubject.next(
+      this.queueSubject.value.map(item => item.fileType === fileType ? { ...item, ...changes } : item)
+    );
+  }
+
+  private finish(): void {
+    const queue = this.queueSubject.value;
+    this.reportSubject.next({
+      completed: queue.filter(item => item.status === 'completed').map(item => item.fileType),
+      failed: queue
+        .filter(item => item.status === 'failed')
+        .map(item => ({ fileType: item.fileType, reason: item.message || 'Upload failed' })),
+      skipped: queue
+        .filter(item => item.status === 'skipped')
+        .map(item => ({ fileType: item.fileType, reason: item.message || 'Skipped' }))
+    });
+  }
+}
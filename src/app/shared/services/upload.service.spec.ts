@@ -0,0 +1,171 @@
+import { TestBed, fakeAsync, flush } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { UploadService } from './upload.service';
+import { Task, TaskStatus } from '../models/task.model';
+import { ErrorReport, ErrorSummary, ValidationError } from '../models/upload-error.model';
+
+describe('UploadService', () => {
+  let service: UploadService;
+  let http: HttpTestingController;
+  const api = 'http://localhost:9000/toy-iris/api';
+
+  const task = (id: number, fileType: string, status: TaskStatus): Task => ({
+    id,
+    taskType: `UPLOAD_${fileType.toUpperCase()}`,
+    status,
+    startTime: '2024-01-01T00:00:00',
+    createdDate: '2024-01-01T00:00:00'
+  });
+
+  /**
+   * Answer the header-only replace upload of a file type and the poll of its task
+   */
+  const respondToClear = (fileType: string, id: number, status: TaskStatus): void => {
+    const upload = http.expectOne(`${api}/file/upload/${fileType}/async`);
+    const body = upload.request.body as FormData;
+    expect(body.get('mode')).toBe('replace');
+    upload.flush(task(id, fileType, 'RUNNING'));
+    http.expectOne(`${api}/tasks/${id}`).flush(task(id, fileType, status));
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem('uploadFingerprints');
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(UploadService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+    localStorage.removeItem('uploadFingerprints');
+  });
+
+  it('should summarize errors from every page of the error report, one page at a time', () => {
+    let summary: ErrorSummary | undefined;
+    const page = (index: number, errors: ValidationError[]): ErrorReport => ({ errors, totalCount: 3, page: index, size: 1000, totalPages: 3 });
+    const error = (errorType: string): ValidationError => ({ rowNumber: 1, errorType, errorReason: 'Bad value' });
+    const request = (index: number) => http.expectOne(req => req.url === `${api}/upload/errors/9` && req.params.get('page') === String(index));
+
+    service.getErrorSummary(9).subscribe(result => summary = result);
+    request(0).flush(page(0, [error('FORMAT')]));
+    http.expectNone(req => req.params.get('page') === '2');
+    request(1).flush(page(1, [error('MISSING')]));
+    request(2).flush(page(2, [error('FORMAT')]));
+
+    expect(summary?.totalCount).toBe(3);
+    expect(summary?.byErrorType).toEqual([{ errorType: 'FORMAT', count: 2 }, { errorType: 'MISSING', count: 1 }]);
+  });
+
+  it('should map upload task types to their file type and ignore other tasks', () => {
+    expect(service.getFileTypeForTask('UPLOAD_SALES')).toBe('sales');
+    expect(service.getFileTypeForTask('UPLOAD_STYLES')).toBe('styles');
+    expect(service.getFileTypeForTask('UPLOAD_FOO')).toBeNull();
+    expect(service.getFileTypeForTask('RUN_NOOS')).toBeNull();
+    expect(service.getFileTypeForTask('UPLOAD_SALES_PREVIEW')).toBeNull();
+  });
+
+  it('should pick the latest completed upload of each file type as its current dataset', () => {
+    let current: { [fileType: string]: Task } = {};
+    const at = (id: number, fileType: string, status: TaskStatus, startTime: string): Task => ({ ...task(id, fileType, status), startTime });
+
+    service.getCurrentUploadTasks().subscribe(result => current = result);
+    http.expectOne(`${api}/tasks`).flush([
+      at(1, 'styles', 'COMPLETED', '2024-01-01T00:00:00'),
+      at(2, 'styles', 'COMPLETED', '2024-01-03T00:00:00'),
+      at(3, 'styles', 'FAILED', '2024-01-04T00:00:00'),
+      at(4, 'sales', 'COMPLETED', '2024-01-02T00:00:00'),
+      { ...at(5, 'sales', 'COMPLETED', '2024-01-05T00:00:00'), taskType: 'RUN_NOOS' }
+    ]);
+
+    expect(Object.keys(current).sort()).toEqual(['sales', 'styles']);
+    expect(current['styles'].id).toBe(2);
+    expect(current['sales'].id).toBe(4);
+  });
+
+  it('should read the upload mode from the task parameters and default to replace', () => {
+    const withParameters = (parameters?: string): Task => ({ ...task(1, 'sales', 'COMPLETED'), parameters });
+
+    expect(service.getUploadMode(withParameters('{"mode":"append"}'))).toBe('append');
+    expect(service.getUploadMode(withParameters('{"mode":"upsert"}'))).toBe('upsert');
+    expect(service.getUploadMode(withParameters('{"mode":"merge"}'))).toBe('replace');
+    expect(service.getUploadMode(withParameters('{mode: append'))).toBe('replace');
+    expect(service.getUploadMode(withParameters())).toBe('replace');
+  });
+
+  it('should send the upload mode and parent task with the file', () => {
+    const file = new File(['sku\n'], 'skus.tsv');
+
+    service.startUploadTask('skus', file, { mode: 'append', parentTaskId: 42 }).subscribe();
+    const request = http.expectOne(`${api}/file/upload/skus/async`);
+    const body = request.request.body as FormData;
+    request.flush(task(1, 'skus', 'RUNNING'));
+
+    expect(request.request.method).toBe('POST');
+    expect(body.get('mode')).toBe('append');
+    expect(body.get('parentTaskId')).toBe('42');
+    expect((body.get('file') as File).name).toBe('skus.tsv');
+  });
+
+  it('should leave the mode out of uploads that do not choose one', () => {
+    service.startUploadTask('skus', new File(['sku\n'], 'skus.tsv')).subscribe();
+    const request = http.expectOne(`${api}/file/upload/skus/async`);
+    const body = request.request.body as FormData;
+    request.flush(task(1, 'skus', 'RUNNING'));
+
+    expect(body.has('mode')).toBeFalse();
+    expect(body.has('parentTaskId')).toBeFalse();
+  });
+
+  it('should find every dataset that depends on a file type, directly or transitively', () => {
+    expect(service.getDependentFileTypes('styles')).toEqual(['skus', 'sales']);
+    expect(service.getDependentFileTypes('stores')).toEqual(['sales']);
+    expect(service.getDependentFileTypes('sales')).toEqual([]);
+  });
+
+  it('should count the records a clear removes, including loaded dependents only', () => {
+    const impact = service.getClearImpact('styles', {
+      styles: { exists: true, count: 10 },
+      skus: { exists: true, count: 40 },
+      sales: { exists: false, count: 0 }
+    });
+
+    expect(impact.datasets).toEqual([
+      { fileType: 'styles', count: 10, dependent: false },
+      { fileType: 'skus', count: 40, dependent: true }
+    ]);
+    expect(impact.totalRecords).toBe(50);
+  });
+
+  it('should clear dependents before their parents, one at a time', fakeAsync(() => {
+    let cleared: Task[] = [];
+
+    service.clearDataset('styles').subscribe(tasks => cleared = tasks);
+    respondToClear('sales', 1, 'COMPLETED');
+    respondToClear('skus', 2, 'COMPLETED');
+    respondToClear('styles', 3, 'COMPLETED');
+    flush();
+
+    expect(cleared.map(t => t.id)).toEqual([1, 2, 3]);
+  }));
+
+  it('should stop at the first failed clear and only forget fingerprints of the cleared datasets', fakeAsync(() => {
+    const fingerprint = (taskId: number) => [{ hash: `h${taskId}`, fileName: 'f.tsv', taskId, uploadedAt: '2024-01-01' }];
+    localStorage.setItem('uploadFingerprints', JSON.stringify({ sales: fingerprint(11), skus: fingerprint(12), styles: fingerprint(13) }));
+    let failure: Error | undefined;
+
+    service.clearDataset('styles').subscribe({ error: error => failure = error });
+    respondToClear('sales', 1, 'COMPLETED');
+    respondToClear('skus', 2, 'FAILED');
+    flush();
+    http.expectNone(`${api}/file/upload/styles/async`);
+
+    const remaining = JSON.parse(localStorage.getItem('uploadFingerprints')!);
+    expect(failure).toBeDefined();
+    expect(remaining.sales).toEqual([]);
+    expect(remaining.skus.length).toBe(1);
+    expect(remaining.styles.length).toBe(1);
+  }));
+});
@@ -1,7 +1,17 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpEventType, HttpErrorResponse } from '@angular/common/http';
-import { Observable, BehaviorSubject, throwError, of } from 'rxjs';
-import { map, catchError } from 'rxjs/operators';
+import { HttpClient, HttpEventType, HttpErrorResponse, HttpParams, HttpResponse, HttpUploadProgressEvent } from '@angular/common/http';
+import { Observable, BehaviorSubject, Subscription, EMPTY, throwError, of, concat, firstValueFrom } from 'rxjs';
+import { map, catchError, expand, filter, switchMap, tap, toArray } from 'rxjs/operators';
+import { ChunkedUploadService, CHUNK_SIZE_BYTES } from './chunked-upload.service';
+import { TaskWatcherService } from './task-watcher.service';
+import { FileAnalysisService } from './file-analysis.service';
+import { Task } from '../models/task.model';
+import { ErrorReport, ErrorReportFilters, ErrorSummary } from '../models/upload-error.model';
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { ACCEPTED_UPLOAD_EXTENSIONS, getExtension } from '../utils/file-conversion';
+import { TransferProgress, createTransferMeter, formatDuration } from '../utils/transfer-rate';
+import { summarizeErrors } from '../utils/error-summary';
+import { FileHash } from '../utils/file-hash';
 
 export interface UploadStatus {
   [key: string]: {
@@ -28,41 +38,81 @@ export interface UploadResponse {
   errorCount?: number;
 }
 
-export interface Task {
-  id: number;
-  taskType: string;
-  status: string;
-  fileName?: string;
-  totalRecords?: number;
-  processedRecords?: number;
-  errorCount?: number;
-  startTime: string;
-  endTime?: string;
-  errorMessage?: string;
-  userId?: string;
-  parameters?: string;
-  progressMessage?: string;
-  progressPercentage?: number;
-  resultUrl?: string;
-  cancellationRequested?: boolean;
-  createdDate: string;
-  lastUpdatedDate?: string;
+/**
+ * How uploaded rows are applied: 'replace' swaps out the dataset, 'append' adds to it,
+ * 'upsert' updates rows whose key already exists and adds the rest
+ */
+export type UploadMode = 'replace' | 'append' | 'upsert';
+
+export const UPLOAD_MODES: { mode: UploadMode; label: string; description: string }[] = [
+  { mode: 'replace', label: 'Replace', description: 'Delete the current data and load this file in its place' },
+  { mode: 'append', label: 'Append', description: 'Add the rows in this file to the current data' },
+  { mode: 'upsert', label: 'Upsert by key', description: 'Update rows whose key already exists and add the rest' }
+];
+
+/**
+ * Progress of an upload: first the file transfer, then the processing task on the server
+ */
+export interface UploadProgressUpdate {
+  progress: number;
+  task?: Task;
+  completed?: boolean;
+  error?: string;
+  uploadedChunks?: number;
+  totalChunks?: number;
+  /** Set while the file is being sent, before the processing task exists */
+  transfer?: TransferProgress;
+}
+
+export interface UploadOptions {
+  mode?: UploadMode;
+  /** Earlier task this upload follows up on, e.g. resubmitted fixes for its rejected rows */
+  parentTaskId?: number;
 }
 
-export interface ValidationError {
-  rowNumber: number;
-  errorType: string;
-  errorReason: string;
-  fieldName?: string;
-  fieldValue?: string;
+/**
+ * Parent datasets each file type needs before it can be uploaded
+ */
+export const UPLOAD_DEPENDENCIES: { [fileType: string]: string[] } = {
+  styles: [],
+  stores: [],
+  skus: ['styles'],
+  sales: ['styles', 'skus', 'stores']
+};
+
+/**
+ * File types in an order that satisfies UPLOAD_DEPENDENCIES
+ */
+export const UPLOAD_ORDER = ['styles', 'stores', 'skus', 'sales'];
+
+/**
+ * Content hash of an uploaded file and the task it started, used to spot the same file being uploaded again
+ */
+export interface UploadFingerprint {
+  hash: string;
+  /** The hash covers samples of a very large file, so a match is likely rather than certain */
+  sampled?: boolean;
+  fileName: string;
+  taskId: number;
+  uploadedAt: string;
 }
 
-export interface ErrorReport {
-  errors: ValidationError[];
-  totalCount: number;
-  page: number;
-  size: number;
-  totalPages: number;
+/**
+ * Datasets lost when one dataset is cleared: the dataset itself plus everything that depends on it
+ */
+export interface ClearImpact {
+  fileType: string;
+  datasets: { fileType: string; count: number; dependent: boolean }[];
+  totalRecords: number;
+}
+
+/**
+ * An upload whose task failed on the server; carries the task for its error report
+ */
+export class UploadTaskError extends Error {
+  constructor(readonly task: Task) {
+    super(task.errorMessage || 'Upload failed');
+  }
 }
 
 @Injectable({
@@ -73,7 +123,18 @@ export class UploadService {
   private uploadStatusSubject = new BehaviorSubject<UploadStatus>({});
   public uploadStatus$ = this.uploadStatusSubject.asObservable();
 
-  constructor(private http: HttpClient) {}
+  private readonly FINGERPRINTS_STORAGE_KEY = 'uploadFingerprints';
+  private readonly MAX_FINGERPRINTS_PER_TYPE = 20;
+  private fileHashes = new WeakMap<Blob, Promise<FileHash>>();
+
+  private readonly SUMMARY_PAGE_SIZE = 1000;
+
+  constructor(
+    private http: HttpClient,
+    private chunkedUploadService: ChunkedUploadService,
+    private taskWatcherService: TaskWatcherService,
+    private fileAnalysisService: FileAnalysisService
+  ) {}
 
   /**
    * Get current upload status for all file types
@@ -111,91 +172,197 @@ export class UploadService {
   }
 
   /**
-   * Start async upload task
+   * Send a file and start its async upload task.
+   * Emits the bytes sent while the request body goes out, then the started task.
    */
-  startUploadTask(fileType: string, file: File): Observable<Task> {
+  startUploadTask(fileType: string, file: File, options: UploadOptions = {}): Observable<{ bytesSent: number; totalBytes: number; task?: Task }> {
     if (!file) {
       return throwError(() => new Error('No file provided for upload'));
     }
 
     const formData = new FormData();
     formData.append('file', file);
+    if (options.mode) {
+      formData.append('mode', options.mode);
+    }
+    if (options.parentTaskId) {
+      formData.append('parentTaskId', String(options.parentTaskId));
+    }
 
     const url = `${this.baseUrl}/upload/${fileType}/async`;
     console.log('Upload URL:', url);
     console.log('File type:', fileType);
     console.log('File name:', file.name);
 
-    return this.http.post<Task>(url, formData)
-      .pipe(catchError(this.handleError));
+    return this.http.post<Task>(url, formData, { reportProgress: true, observe: 'events' })
+      .pipe(
+        filter((event): event is HttpUploadProgressEvent | HttpResponse<Task> =>
+          event.type === HttpEventType.UploadProgress || event.type === HttpEventType.Response),
+        map(event => event.type === HttpEventType.UploadProgress
+          ? { bytesSent: event.loaded, totalBytes: event.total || file.size }
+          : { bytesSent: file.size, totalBytes: file.size, task: event.body! }),
+        catchError(this.handleError)
+      );
   }
 
   /**
-   * Upload file asynchronously with proper task polling
+   * Upload file asynchronously with proper task polling.
+   * Large files go through the chunked upload protocol before the task is started.
    */
-  uploadFileAsync(fileType: string, file: File): Observable<{ progress: number; task?: Task; completed?: boolean; error?: string }> {
+  uploadFileAsync(fileType: string, file: File, options: UploadOptions = {}): Observable<UploadProgressUpdate> {
     return new Observable(observer => {
-      // Start the upload task
-      this.startUploadTask(fileType, file).subscribe({
-        next: (task) => {
-          if (task.status === 'FAILED') {
-            observer.error(new Error(task.errorMessage || 'Upload failed'));
-            return;
+      const meter = createTransferMeter(file.size);
+      const watchSubscription = new Subscription();
+      const onTaskStarted = (task: Task) => {
+        if (task.status === 'FAILED') {
+          observer.error(new Error(task.errorMessage || 'Upload failed'));
+          return;
+        }
+
+        this.rememberFingerprint(fileType, file, task);
+
+        // Follow the task until it finishes
+        watchSubscription.add(this.watchUploadTask(task.id, fileType).subscribe({
+          next: (update) => observer.next(update),
+          error: (error) => observer.error(error),
+          complete: () => observer.complete()
+        }));
+      };
+
+      if (this.chunkedUploadService.requiresChunkedUpload(file)) {
+        const chunkSubscription = this.chunkedUploadService.upload(fileType, file, CHUNK_SIZE_BYTES, options).subscribe({
+          next: (update) => {
+            if (update.task) {
+              onTaskStarted(update.task);
+            } else {
+              observer.next({
+                progress: update.progress,
+                uploadedChunks: update.uploadedChunks,
+                totalChunks: update.totalChunks,
+                transfer: meter(update.bytesSent)
+              });
+            }
+          },
+          error: (error) => {
+            observer.error(error);
+          }
+        });
+        return () => {
+          chunkSubscription.unsubscribe();
+          watchSubscription.unsubscribe();
+        };
+      }
+
+      // Send the file and start the upload task; unsubscribing aborts the request
+      const uploadSubscription = this.startUploadTask(fileType, file, options).subscribe({
+        next: (update) => {
+          if (update.task) {
+            onTaskStarted(update.task);
+          } else {
+            const transfer = meter(Math.min(update.bytesSent, file.size));
+            observer.next({ progress: file.size > 0 ? Math.round((transfer.bytesSent / file.size) * 100) : 100, transfer });
           }
-          
-          // Start polling for completion
-          this.pollUploadTaskStatus(task.id, observer, fileType);
         },
         error: (error) => {
           observer.error(error);
         }
       });
+      return () => {
+        uploadSubscription.unsubscribe();
+        watchSubscription.unsubscribe();
+      };
     });
   }
 
   /**
-   * Poll upload task status until completion
+   * Follow an upload task until it finishes, e.g. one started before a page reload
    */
-  private pollUploadTaskStatus(taskId: number, observer: any, fileType: string, pollCount: number = 0): void {
-    const maxPolls = 240; // Maximum 20 minutes (240 * 5 seconds) for uploads
-    
-    if (pollCount >= maxPolls) {
-      observer.error(new Error('Upload timeout - task is taking too long'));
-      return;
+  watchUploadTask(taskId: number, fileType: string): Observable<UploadProgressUpdate> {
+    return this.taskWatcherService.watch(taskId).pipe(
+      map(task => {
+        if (task.status === 'FAILED') {
+          this.forgetFingerprints(fileType, taskId);
+          throw new UploadTaskError(task);
+        }
+        if (task.status === 'CANCELLED') {
+          this.forgetFingerprints(fileType, taskId);
+          throw new Error('Upload was cancelled');
+        }
+        return task.status === 'COMPLETED'
+          ? { progress: 100, task, completed: true }
+          : { progress: task.progressPercentage || 0, task };
+      })
+    );
+  }
+
+  /**
+   * SHA-256 of a file's content as hex (null when SubtleCrypto is unavailable), hashed in the file analysis worker.
+   * Very large files are fingerprinted from samples, which the result flags.
+   */
+  computeFileHash(file: Blob): Promise<FileHash> {
+    let hash = this.fileHashes.get(file);
+    if (!hash) {
+      hash = this.digestFile(file);
+      this.fileHashes.set(file, hash);
     }
+    return hash;
+  }
 
-    this.getTaskStatus(taskId).subscribe({
-      next: (task) => {
-        if (task.status === 'COMPLETED') {
-          observer.next({ progress: 100, task, completed: true });
-          observer.complete();
-        } else if (task.status === 'FAILED') {
-          const error = new Error(task.errorMessage || 'Upload failed');
-          // Attach task information to the error for the component to use
-          (error as any).task = task;
-          observer.error(error);
-        } else if (task.status === 'CANCELLED') {
-          observer.error(new Error('Upload was cancelled'));
-        } else if (task.status === 'PENDING' || task.status === 'RUNNING') {
-          // Update progress and continue polling
-          const progress = task.progressPercentage || 0;
-          observer.next({ progress, task });
-          
-          // Continue polling after 2 seconds (more frequent for uploads)
-          setTimeout(() => {
-            this.pollUploadTaskStatus(taskId, observer, fileType, pollCount + 1);
-          }, 2000);
-        } else {
-          observer.error(new Error('Unknown task status: ' + task.status));
+  /**
+   * Earlier upload of a file type with the same content (or, for sampled fingerprints, likely so), if one is remembered
+   */
+  async findPreviousUpload(fileType: string, file: Blob): Promise<UploadFingerprint | null> {
+    const { hash } = await this.computeFileHash(file);
+    return hash ? (this.loadFingerprints()[fileType] || []).find(fingerprint => fingerprint.hash === hash) || null : null;
+  }
+
+  private async digestFile(file: Blob): Promise<FileHash> {
+    const update = await firstValueFrom(this.fileAnalysisService.hashFile(file).pipe(filter(update => !!update.result)));
+    return update.result!;
+  }
+
+  private rememberFingerprint(fileType: string, file: File, task: Task): void {
+    this.computeFileHash(file)
+      .then(({ hash, sampled }) => {
+        if (!hash) {
+          return;
         }
-      },
-      error: (error) => {
-        // Retry polling on error
-        setTimeout(() => {
-          this.pollUploadTaskStatus(taskId, observer, fileType, pollCount + 1);
-        }, 2000);
-      }
-    });
+        const fingerprints = this.loadFingerprints();
+        fingerprints[fileType] = [
+          { hash, sampled, fileName: file.name, taskId: task.id, uploadedAt: task.startTime || new Date().toISOString() },
+          ...(fingerprints[fileType] || []).filter(fingerprint => fingerprint.hash !== hash)
+        ].slice(0, this.MAX_FINGERPRINTS_PER_TYPE);
+        this.saveFingerprints(fingerprints);
+      })
+      .catch(error => console.warn('Could not fingerprint upload:', error));
+  }
+
+  /**
+   * Forget the fingerprints of a file type, or just the one left by a task that did not load its data
+   */
+  private forgetFingerprints(fileType: string, taskId?: number): void {
+    const fingerprints = this.loadFingerprints();
+    fingerprints[fileType] = taskId === undefined
+      ? []
+      : (fingerprints[fileType] || []).filter(fingerprint => fingerprint.taskId !== taskId);
+    this.saveFingerprints(fingerprints);
+  }
+
+  private loadFingerprints(): { [fileType: string]: UploadFingerprint[] } {
+    try {
+      return JSON.parse(localStorage.getItem(this.FINGERPRINTS_STORAGE_KEY) || '{}');
+    } catch (error) {
+      console.warn('Could not read upload fingerprints:', error);
+      return {};
+    }
+  }
+
+  private saveFingerprints(fingerprints: { [fileType: string]: UploadFingerprint[] }): void {
+    try {
+      localStorage.setItem(this.FINGERPRINTS_STORAGE_KEY, JSON.stringify(fingerprints));
+    } catch (error) {
+      console.warn('Could not save upload fingerprints:', error);
+    }
   }
 
   /**
@@ -230,87 +397,70 @@ export class UploadService {
       .pipe(catchError(this.handleError));
   }
 
+  /**
+   * URL of a completed task's result file
+   */
+  getTaskResultUrl(taskId: number): string {
+    return `http://localhost:9000/toy-iris/api/tasks/${taskId}/result`;
+  }
+
   /**
    * Download task result file
    */
   downloadTaskResult(taskId: number): Observable<Blob> {
-    return this.http.get(`http://localhost:9000/toy-iris/api/tasks/${taskId}/result`, {
+    return this.http.get(this.getTaskResultUrl(taskId), {
       responseType: 'blob'
     }).pipe(catchError(this.handleError));
   }
 
   /**
-   * Poll task status until completion and then download result
+   * Wait for the download task of a dataset and then download its result
    */
   downloadDataFileAsync(fileType: string): Observable<{ progress: number; blob?: Blob; filename?: string }> {
-    return new Observable(observer => {
-      // Start the download task
-      this.startDownloadTask(fileType).subscribe({
-        next: (task) => {
-          if (task.status === 'FAILED') {
-            observer.error(new Error(task.errorMessage || 'Download failed'));
-            return;
-          }
-          
-          // Start polling for completion
-          this.pollTaskStatus(task.id, observer, fileType);
-        },
-        error: (error) => {
-          observer.error(error);
-        }
-      });
-    });
+    return this.runDownloadTask(fileType).pipe(
+      switchMap(update => update.completedTaskId === undefined
+        ? of({ progress: update.progress })
+        : this.downloadTaskResult(update.completedTaskId).pipe(
+          map(blob => ({ progress: 100, blob, filename: `${fileType}_data.tsv` }))
+        ))
+    );
   }
 
   /**
-   * Poll task status until completion
+   * Run the download task for a dataset and emit the URL of its result once ready,
+   * for callers that stream the file instead of buffering it as a Blob
    */
-  private pollTaskStatus(taskId: number, observer: any, fileType: string, pollCount: number = 0): void {
-    const maxPolls = 120; // Maximum 10 minutes (120 * 5 seconds)
-    
-    if (pollCount >= maxPolls) {
-      observer.error(new Error('Download timeout - task is taking too long'));
-      return;
-    }
+  prepareDataDownload(fileType: string): Observable<{ progress: number; resultUrl?: string }> {
+    return this.runDownloadTask(fileType).pipe(
+      map(update => update.completedTaskId === undefined
+        ? { progress: update.progress }
+        : { progress: 100, resultUrl: this.getTaskResultUrl(update.completedTaskId) })
+    );
+  }
 
-    this.getTaskStatus(taskId).subscribe({
-      next: (task) => {
-        if (task.status === 'COMPLETED') {
-          // Download the result file
-          this.downloadTaskResult(taskId).subscribe({
-            next: (blob) => {
-              const filename = `${fileType}_data.tsv`;
-              observer.next({ progress: 100, blob, filename });
-              observer.complete();
-            },
-            error: (error) => {
-              observer.error(error);
-            }
-          });
-        } else if (task.status === 'FAILED') {
-          observer.error(new Error(task.errorMessage || 'Download failed'));
-        } else if (task.status === 'CANCELLED') {
-          observer.error(new Error('Download was cancelled'));
-        } else if (task.status === 'PENDING' || task.status === 'RUNNING') {
-          // Update progress and continue polling
-          const progress = task.progressPercentage || 0;
-          observer.next({ progress });
-          
-          // Continue polling after 5 seconds
-          setTimeout(() => {
-            this.pollTaskStatus(taskId, observer, fileType, pollCount + 1);
-          }, 5000);
-        } else {
-          observer.error(new Error('Unknown task status: ' + task.status));
+  /**
+   * Start the download task of a dataset and follow it; the id is set once the task has completed
+   */
+  private runDownloadTask(fileType: string): Observable<{ progress: number; completedTaskId?: number }> {
+    return this.startDownloadTask(fileType).pipe(
+      switchMap(started => {
+        if (started.status === 'FAILED') {
+          return throwError(() => new Error(started.errorMessage || 'Download failed'));
         }
-      },
-      error: (error) => {
-        // Retry polling on error
-        setTimeout(() => {
-          this.pollTaskStatus(taskId, observer, fileType, pollCount + 1);
-        }, 5000);
-      }
-    });
+        return this.taskWatcherService.watch(started.id, { maxDurationMs: 10 * 60 * 1000 });
+      }),
+      map(task => {
+        if (task.status === 'FAILED') {
+          throw new Error(task.errorMessage || 'Download failed');
+        }
+        if (task.status === 'CANCELLED') {
+          throw new Error('Download was cancelled');
+        }
+        return task.status === 'COMPLETED'
+          ? { progress: 100, completedTaskId: task.id }
+          : { progress: task.progressPercentage || 0 };
+      })
+    );
   }
 
   /**
@@ -350,13 +500,88 @@ export class UploadService {
   }
 
   /**
-   * Get error report data for a task
+   * Get error report data for a task, optionally filtered by error type and field
    */
-  getErrorReport(taskId: number, page: number = 0, size: number = 50): Observable<ErrorReport> {
-    return this.http.get<ErrorReport>(`http://localhost:9000/toy-iris/api/upload/errors/${taskId}?page=${page}&size=${size}`)
+  getErrorReport(taskId: number, page: number = 0, size: number = 50, filters: ErrorReportFilters = {}): Observable<ErrorReport> {
+    let params = new HttpParams()
+      .set('page', page)
+      .set('size', size);
+    if (filters.errorType) {
+      params = params.set('errorType', filters.errorType);
+    }
+    if (filters.fieldName) {
+      params = params.set('fieldName', filters.fieldName);
+    }
+
+    return this.http.get<ErrorReport>(`http://localhost:9000/toy-iris/api/upload/errors/${taskId}`, { params })
       .pipe(catchError(this.handleError));
   }
 
+  /**
+   * Get error counts for a task grouped by type, field and most frequent reasons.
+   * The backend has no summary endpoint, so every page of the error report is read, one after another.
+   */
+  getErrorSummary(taskId: number): Observable<ErrorSummary> {
+    return this.getErrorReport(taskId, 0, this.SUMMARY_PAGE_SIZE).pipe(
+      expand((report, index) => index + 1 < report.totalPages
+        ? this.getErrorReport(taskId, index + 1, this.SUMMARY_PAGE_SIZE)
+        : EMPTY),
+      toArray(),
+      map(pages => summarizeErrors(pages.flatMap(page => page.errors), pages[0].totalCount))
+    );
+  }
+
+  /**
+   * Map an upload task type (e.g. UPLOAD_SALES) to its file type, or null for other tasks
+   */
+  getFileTypeForTask(taskType: string): string | null {
+    const match = /^UPLOAD_([A-Z]+)$/.exec(taskType);
+    const fileType = match ? match[1].toLowerCase() : null;
+    return fileType && UPLOAD_ORDER.includes(fileType) ? fileType : null;
+  }
+
+  /**
+   * Mode an upload task was started with; tasks from before modes existed were full replaces
+   */
+  getUploadMode(task: Task): UploadMode {
+    try {
+      const mode = task.parameters ? JSON.parse(task.parameters).mode : null;
+      return UPLOAD_MODES.some(option => option.mode === mode) ? mode : 'replace';
+    } catch {
+      return 'replace';
+    }
+  }
+
+  /**
+   * Latest completed upload task for each file type, i.e. the one that produced its current data
+   */
+  getCurrentUploadTasks(): Observable<{ [fileType: string]: Task }> {
+    return this.getAllTasks().pipe(
+      map(tasks => {
+        const current: { [fileType: string]: Task } = {};
+        [...tasks]
+          .filter(task => task.status === 'COMPLETED' && this.getFileTypeForTask(task.taskType))
+          .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+          .forEach(task => {
+            const fileType = this.getFileTypeForTask(task.taskType)!;
+            current[fileType] = current[fileType] || task;
+          });
+        return current;
+      })
+    );
+  }
+
+  /**
+   * Mode of the latest completed upload for each file type, i.e. the one that produced its current count
+   */
+  getCurrentUploadModes(): Observable<{ [fileType: string]: UploadMode }> {
+    return this.getCurrentUploadTasks().pipe(
+      map(current => Object.fromEntries(
+        Object.entries(current).map(([fileType, task]) => [fileType, this.getUploadMode(task)])
+      ))
+    );
+  }
+
   /**
    * Cancel a running task
    */
@@ -370,7 +595,70 @@ export class UploadService {
    */
   clearAllData(): Observable<any> {
     return this.http.delete(`http://localhost:9000/toy-iris/api/data/clear-all`, {})
-      .pipe(catchError(this.handleError));
+      .pipe(
+        tap(() => UPLOAD_ORDER.forEach(fileType => this.forgetFingerprints(fileType))),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Clear one dataset. Datasets that depend on it are cleared first, children before parents;
+   * the first failure stops the rest. Resolves to the clearing upload tasks.
+   */
+  clearDataset(fileType: string): Observable<Task[]> {
+    const fileTypes = [...this.getDependentFileTypes(fileType), fileType]
+      .sort((a, b) => UPLOAD_ORDER.indexOf(b) - UPLOAD_ORDER.indexOf(a));
+
+    return concat(...fileTypes.map(type => this.replaceWithEmptyDataset(type))).pipe(toArray());
+  }
+
+  /**
+   * The backend only deletes all data at once, so a single dataset is emptied by a replace upload of
+   * just its header row. Its fingerprints are forgotten as soon as that upload completes.
+   */
+  private replaceWithEmptyDataset(fileType: string): Observable<Task> {
+    const header = UPLOAD_SCHEMAS[fileType].columns.map(column => column.name).join('\t');
+    const file = new File([header + '\n'], `${fileType}_clear.tsv`, { type: 'text/tab-separated-values' });
+
+    return this.startUploadTask(fileType, file, { mode: 'replace' }).pipe(
+      filter(update => !!update.task),
+      switchMap(update => this.watchUploadTask(update.task!.id, fileType)),
+      filter(update => !!update.completed),
+      map(update => update.task!),
+      tap(() => this.forgetFingerprints(fileType))
+    );
+  }
+
+  /**
+   * File types that directly or transitively depend on a file type (e.g. styles → skus, sales)
+   */
+  getDependentFileTypes(fileType: string): string[] {
+    const dependents = new Set<string>();
+    const visit = (parent: string) => {
+      UPLOAD_ORDER
+        .filter(child => (UPLOAD_DEPENDENCIES[child] || []).includes(parent) && !dependents.has(child))
+        .forEach(child => {
+          dependents.add(child);
+          visit(child);
+        });
+    };
+    visit(fileType);
+    return UPLOAD_ORDER.filter(type => dependents.has(type));
+  }
+
+  /**
+   * Records that clearing a dataset would remove, using the same dependency graph as checkUploadDependencies
+   */
+  getClearImpact(fileType: string, statusData: UploadStatus): ClearImpact {
+    const datasets = [fileType, ...this.getDependentFileTypes(fileType)]
+      .filter(type => statusData[type]?.exists)
+      .map(type => ({ fileType: type, count: statusData[type].count, dependent: type !== fileType }));
+
+    return {
+      fileType,
+      datasets,
+      totalRecords: datasets.reduce((total, dataset) => total + dataset.count, 0)
+    };
   }
 
   /**
@@ -406,9 +694,7 @@ export class UploadService {
    * Check if file type is valid for upload
    */
   isValidFileType(file: File): boolean {
-    const validTypes = ['.tsv', '.txt'];
-    const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
-    return validTypes.includes(fileExtension);
+    return ACCEPTED_UPLOAD_EXTENSIONS.includes(getExtension(file.name));
   }
 
   /**
@@ -430,6 +716,24 @@ export class UploadService {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
 
+  /**
+   * Status line for a file transfer, e.g. "Uploading 12 MB of 40 MB · 2.1 MB/s · about 13s left"
+   */
+  getTransferMessage(transfer: TransferProgress): string {
+    if (transfer.bytesSent >= transfer.totalBytes) {
+      return 'File sent, waiting for the server to start processing...';
+    }
+
+    const parts = [`Uploading ${this.formatFileSize(transfer.bytesSent)} of ${this.formatFileSize(transfer.totalBytes)}`];
+    if (transfer.bytesPerSecond > 0) {
+      parts.push(`${this.formatFileSize(transfer.bytesPerSecond)}/s`);
+    }
+    if (transfer.etaSeconds !== null) {
+      parts.push(`about ${formatDuration(transfer.etaSeconds)} left`);
+    }
+    return parts.join(' · ');
+  }
+
   /**
    * Get file type display name
    */
@@ -460,37 +764,23 @@ export class UploadService {
    * Check upload dependencies
    */
   checkUploadDependencies(fileType: string, statusData: UploadStatus): { enabled: boolean; message: string } {
-    switch (fileType) {
-      case 'styles':
-      case 'stores':
-        return { enabled: true, message: '' };
-      
-      case 'skus':
-        if (!statusData['styles']?.exists) {
-          return {
-            enabled: false,
-            message: 'Upload styles first (styles → skus → sales)'
-          };
-        }
-        return { enabled: true, message: '' };
-      
-      case 'sales':
-        const missingDeps = [];
-        if (!statusData['styles']?.exists) missingDeps.push('styles');
-        if (!statusData['skus']?.exists) missingDeps.push('skus');
-        if (!statusData['stores']?.exists) missingDeps.push('stores');
-        
-        if (missingDeps.length > 0) {
-          return {
-            enabled: false,
-            message: `Upload ${missingDeps.join(', ')} first`
-          };
-        }
-        return { enabled: true, message: '' };
-      
-      default:
-        return { enabled: true, message: '' };
+    const missingDeps = (UPLOAD_DEPENDENCIES[fileType] || []).filter(dep => !statusData[dep]?.exists);
+
+    if (missingDeps.length === 0) {
+      return { enabled: true, message: '' };
     }
+
+    if (fileType === 'skus') {
+      return {
+        enabled: false,
+        message: 'Upload styles first (styles → skus → sales)'
+      };
+    }
+
+    return {
+      enabled: false,
+      message: `Upload ${missingDeps.join(', ')} first`
+    };
   }
 
   /**
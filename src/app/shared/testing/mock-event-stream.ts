@@ -0,0 +1,54 @@
+/**
+ * In-memory stand-in for the server-sent events endpoint.
+ * Provide createEventSource as REALTIME_EVENT_SOURCE in tests or for offline development, then drive the connections it opened.
+ */
+export class MockEventStream {
+  /** Every connection opened so far, the latest last */
+  readonly connections: MockEventSource[] = [];
+
+  readonly createEventSource = (url: string): EventSource => {
+    const source = new MockEventSource(url);
+    this.connections.push(source);
+    return source as unknown as EventSource;
+  };
+
+  get current(): MockEventSource | undefined {
+    return this.connections[this.connections.length - 1];
+  }
+}
+
+export class MockEventSource {
+  onopen: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  closed = false;
+  private listeners = new Map<string, ((event: MessageEvent) => void)[]>();
+
+  constructor(readonly url: string) {}
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  /** Accept the connection */
+  open(): void {
+    this.onopen?.(new Event('open'));
+  }
+
+  /** Drop the connection */
+  fail(): void {
+    this.onerror?.(new Event('error'));
+  }
+
+  /** Push a named event with a JSON payload */
+  send(type: string, data: unknown): void {
+    if (this.closed) {
+      return;
+    }
+    const event = new MessageEvent(type, { data: JSON.stringify(data) });
+    (this.listeners.get(type) || []).forEach(listener => listener(event));
+  }
+}
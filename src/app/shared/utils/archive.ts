@@ -0,0 +1,250 @@
+/**
+ * Minimal readers for gzip and zip archives built on DecompressionStream, plus a streaming zip writer.
+ * Usable from both the main thread and web workers.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Decompress a gzip Blob
+ */
+export function gunzip(blob: Blob): Promise<Blob> {
+  return new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).blob();
+}
+
+/**
+ * List the file entries of a zip archive from its central directory
+ */
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, blob.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  const tail = new DataView(await blob.slice(tailStart).arrayBuffer());
+
+  let eocd = -1;
+  for (let offset = tail.byteLength - EOCD_MIN_SIZE; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported');
+  }
+
+  const directory = new DataView(await blob.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength));
+
+    if (!name.endsWith('/')) {
+      entries.push({
+        name,
+        method: directory.getUint16(offset + 10, true),
+        compressedSize: directory.getUint32(offset + 20, true),
+        size: directory.getUint32(offset + 24, true),
+        localHeaderOffset: directory.getUint32(offset + 42, true)
+      });
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Extract one entry of a zip archive
+ */
+export async function extractZipEntry(blob: Blob, entry: ZipEntry): Promise<Blob> {
+  const header = new DataView(await blob.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer());
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt zip entry '${entry.name}'`);
+  }
+
+  // The local header's name/extra lengths can differ from the central directory's
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = blob.slice(dataStart, dataStart + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATE:
+      return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    default:
+      throw new Error(`Unsupported zip compression method ${entry.method} for '${entry.name}'`);
+  }
+}
+
+/**
+ * Read a zip entry by name as text, or null if it does not exist
+ */
+export async function readZipText(blob: Blob, entries: ZipEntry[], name: string): Promise<string | null> {
+  const entry = entries.find(e => e.name === name);
+  return entry ? (await extractZipEntry(blob, entry)).text() : null;
+}
+
+export interface ZipWriterEntry {
+  name: string;
+  data: ReadableStream<Uint8Array>;
+}
+
+// Sizes and CRC follow the data in a descriptor; names are UTF-8
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const ZIP_VERSION = 20;
+// DOS date for 1980-01-01, the earliest a zip timestamp can hold
+const ZIP_DATE = (1 << 5) | 1;
+
+/**
+ * Write a deflated zip archive as a stream, pulling each entry's data only when the consumer reads.
+ * Entries and the archive must stay under 4GB (no Zip64).
+ */
+export function createZipStream(entries: ZipWriterEntry[]): ReadableStream<Uint8Array> {
+  const chunks = generateZip(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
+
+async function* generateZip(entries: ZipWriterEntry[]): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const written: { name: Uint8Array; crc: number; compressedSize: number; size: number; offset: number }[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+    local.setUint16(8, METHOD_DEFLATE, true);
+    local.setUint16(12, ZIP_DATE, true);
+    local.setUint16(26, name.length, true);
+    yield new Uint8Array(local.buffer);
+    yield name;
+
+    let crc = 0xffffffff;
+    let size = 0;
+    let compressedSize = 0;
+    const reader = entry.data
+      .pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          crc = updateCrc32(crc, chunk);
+          size += chunk.length;
+          controller.enqueue(chunk);
+        }
+      }))
+      .pipeThrough(new CompressionStream('deflate-raw'))
+      .getReader();
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        compressedSize += value.length;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+    crc = (crc ^ 0xffffffff) >>> 0;
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptor.setUint32(4, crc, true);
+    descriptor.setUint32(8, compressedSize, true);
+    descriptor.setUint32(12, size, true);
+    yield new Uint8Array(descriptor.buffer);
+
+    written.push({ name, crc, compressedSize, size, offset });
+    offset += 30 + name.length + compressedSize + 16;
+  }
+
+  const directoryOffset = offset;
+  for (const entry of written) {
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+    central.setUint16(10, METHOD_DEFLATE, true);
+    central.setUint16(14, ZIP_DATE, true);
+    central.setUint32(16, entry.crc, true);
+    central.setUint32(20, entry.compressedSize, true);
+    central.setUint32(24, entry.size, true);
+    central.setUint16(28, entry.name.length, true);
+    central.setUint32(42, entry.offset, true);
+    yield new Uint8Array(central.buffer);
+    yield entry.name;
+    offset += 46 + entry.name.length;
+  }
+
+  const eocd = new DataView(new ArrayBuffer(EOCD_MIN_SIZE));
+  eocd.setUint32(0, EOCD_SIGNATURE, true);
+  eocd.setUint16(8, written.length, true);
+  eocd.setUint16(10, written.length, true);
+  eocd.setUint32(12, offset - directoryOffset, true);
+  eocd.setUint32(16, directoryOffset, true);
+  yield new Uint8Array(eocd.buffer);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
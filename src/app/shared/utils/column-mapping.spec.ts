@@ -0,0 +1,33 @@
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { remapTsvFile, suggestColumnMapping } from './column-mapping';
+
+describe('column mapping', () => {
+  it('should suggest headers by alias and similarity, using each header once', () => {
+    const suggestions = suggestColumnMapping(['Date', 'SKU Code', 'Sales Channel', 'Qty', 'Disc', 'Net Sales', 'Notes'], UPLOAD_SCHEMAS['sales']);
+    const mapping = Object.fromEntries(suggestions.map(s => [s.targetColumn, s.sourceHeader]));
+
+    expect(mapping).toEqual({
+      day: 'Date',
+      sku: 'SKU Code',
+      channel: 'Sales Channel',
+      quantity: 'Qty',
+      discount: 'Disc',
+      revenue: 'Net Sales'
+    });
+  });
+
+  it('should leave columns unmapped when nothing is close enough', () => {
+    const suggestions = suggestColumnMapping(['Store Code', 'Region'], UPLOAD_SCHEMAS['stores']);
+
+    expect(suggestions.find(s => s.targetColumn === 'branch')?.sourceHeader).toBe('Store Code');
+    expect(suggestions.find(s => s.targetColumn === 'city')?.sourceHeader).toBeNull();
+  });
+
+  it('should rewrite a file into schema column order', async () => {
+    const file = new Blob(['City Name\tNotes\tStore Code\n', 'Pune\tx\tB1\n', '\n', 'Delhi\ty\tB2\n']);
+
+    const result = await remapTsvFile(file, UPLOAD_SCHEMAS['stores'], { branch: 'Store Code', city: 'City Name' });
+
+    expect(await result.text()).toBe('branch\tcity\nB1\tPune\nB2\tDelhi\n');
+  });
+});
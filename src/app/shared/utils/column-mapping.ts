@@ -0,0 +1,154 @@
+import { ColumnMapping, ColumnMappingSuggestion, FileSchema } from '../models/upload-schema.model';
+import { forEachLine, normalizeHeader, splitTsvLine } from './tsv-reader';
+
+/**
+ * Minimum score for a header to be suggested for a column
+ */
+const MIN_SUGGESTION_SCORE = 0.6;
+
+/**
+ * Lines buffered before they are flushed into the output Blob
+ */
+const LINES_PER_PART = 10000;
+
+/**
+ * Other names clients commonly use for the expected columns
+ */
+const COLUMN_ALIASES: { [column: string]: string[] } = {
+  style: ['style_code', 'style_id', 'style_no', 'article', 'article_code'],
+  brand: ['brand_name', 'label'],
+  category: ['cat', 'category_name', 'department'],
+  sub_category: ['subcategory', 'sub_cat', 'subcat', 'sub_category_name'],
+  mrp: ['price', 'max_retail_price', 'retail_price', 'list_price'],
+  gender: ['sex', 'target_gender'],
+  branch: ['store', 'store_code', 'store_id', 'branch_code', 'outlet'],
+  city: ['location', 'town', 'store_city'],
+  sku: ['sku_code', 'sku_id', 'item_code', 'barcode', 'ean'],
+  size: ['size_code', 'sz'],
+  day: ['date', 'sale_date', 'txn_date', 'transaction_date', 'order_date'],
+  channel: ['sales_channel', 'store', 'branch'],
+  quantity: ['qty', 'units', 'units_sold', 'sold_qty'],
+  discount: ['disc', 'discount_amount', 'markdown'],
+  revenue: ['sales', 'amount', 'net_sales', 'sales_value', 'net_amount']
+};
+
+/**
+ * Score how well a source header matches an expected column (1 = exact)
+ */
+export function scoreHeaderMatch(targetColumn: string, sourceHeader: string): number {
+  const source = normalizeHeader(sourceHeader);
+  if (source === targetColumn) {
+    return 1;
+  }
+  if ((COLUMN_ALIASES[targetColumn] || []).includes(source)) {
+    return 0.95;
+  }
+
+  const compactSource = source.replace(/_/g, '');
+  const compactTarget = targetColumn.replace(/_/g, '');
+  if (compactSource === compactTarget) {
+    return 0.9;
+  }
+  if (compactSource.includes(compactTarget) || compactTarget.includes(compactSource)) {
+    return 0.75;
+  }
+
+  const distance = levenshtein(compactSource, compactTarget);
+  return 1 - distance / Math.max(compactSource.length, compactTarget.length, 1);
+}
+
+/**
+ * Suggest a source header for every column of the schema.
+ * Best-scoring pairs are assigned first and each header is used at most once.
+ */
+export function suggestColumnMapping(headers: string[], schema: FileSchema): ColumnMappingSuggestion[] {
+  const candidates: ColumnMappingSuggestion[] = [];
+  for (const column of schema.columns) {
+    for (const header of headers) {
+      const score = scoreHeaderMatch(column.name, header);
+      if (score >= MIN_SUGGESTION_SCORE) {
+        candidates.push({ targetColumn: column.name, sourceHeader: header, score });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const assigned = new Map<string, ColumnMappingSuggestion>();
+  const usedHeaders = new Set<string>();
+  for (const candidate of candidates) {
+    if (!assigned.has(candidate.targetColumn) && !usedHeaders.has(candidate.sourceHeader!)) {
+      assigned.set(candidate.targetColumn, candidate);
+      usedHeaders.add(candidate.sourceHeader!);
+    }
+  }
+
+  return schema.columns.map(column =>
+    assigned.get(column.name) || { targetColumn: column.name, sourceHeader: null, score: 0 }
+  );
+}
+
+/**
+ * Whether a file with these headers already has every schema column under its expected name
+ */
+export function headersMatchSchema(headers: string[], schema: FileSchema): boolean {
+  const present = new Set(headers.map(normalizeHeader));
+  return schema.columns.every(column => present.has(column.name));
+}
+
+/**
+ * Rewrite a TSV file so it has exactly the schema's columns, in schema order, read through the mapping
+ */
+export async function remapTsvFile(
+  file: Blob,
+  schema: FileSchema,
+  mapping: ColumnMapping,
+  onProgress?: (percent: number) => void
+): Promise<Blob> {
+  const parts: string[] = [];
+  let buffer: string[] = [schema.columns.map(column => column.name).join('\t')];
+  let sourceIndexes: (number | undefined)[] = [];
+
+  await forEachLine(
+    file,
+    (line, lineNumber) => {
+      if (lineNumber === 1) {
+        const headers = splitTsvLine(line);
+        sourceIndexes = schema.columns.map(column => {
+          const source = mapping[column.name];
+          const index = source ? headers.indexOf(source) : -1;
+          return index >= 0 ? index : undefined;
+        });
+        return;
+      }
+      if (line.trim() === '') {
+        return;
+      }
+
+      const fields = splitTsvLine(line);
+      buffer.push(sourceIndexes.map(index => index === undefined ? '' : fields[index] ?? '').join('\t'));
+      if (buffer.length >= LINES_PER_PART) {
+        parts.push(buffer.join('\n') + '\n');
+        buffer = [];
+      }
+    },
+    (bytesRead, totalBytes) => onProgress?.(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100)
+  );
+
+  if (buffer.length > 0) {
+    parts.push(buffer.join('\n') + '\n');
+  }
+  return new Blob(parts, { type: 'text/tab-separated-values' });
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,27 @@
+import { diffDatasets } from './dataset-diff';
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+
+describe('diffDatasets', () => {
+  it('should report added, removed and changed rows by key column', async () => {
+    const current = new Blob(['branch\tcity\nB1\tPune\nB2\tDelhi\nB3\tGoa\n']);
+    const incoming = new Blob(['city\tbranch\nPune\tB1\nMumbai\tB2\nSurat\tB4\n']);
+
+    const diff = await diffDatasets(current, incoming, UPLOAD_SCHEMAS['stores']);
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.added).toEqual([['B4', 'Surat']]);
+    expect(diff.removed).toEqual([['B3', 'Goa']]);
+    expect(diff.changed).toEqual([{ key: 'B2', before: ['B2', 'Delhi'], after: ['B2', 'Mumbai'], changedColumns: [1] }]);
+  });
+
+  it('should cap sample rows but keep full counts', async () => {
+    const current = new Blob(['branch\tcity\n']);
+    const incoming = new Blob(['branch\tcity\nB1\tPune\nB2\tDelhi\nB3\tGoa\n']);
+
+    const diff = await diffDatasets(current, incoming, UPLOAD_SCHEMAS['stores'], 2);
+
+    expect(diff.addedCount).toBe(3);
+    expect(diff.added.length).toBe(2);
+    expect(diff.truncated).toBeTrue();
+  });
+});
@@ -0,0 +1,107 @@
+import { DatasetDiff, FileSchema } from '../models/upload-schema.model';
+import { forEachLine, normalizeHeader, splitTsvLine } from './tsv-reader';
+
+const KEY_SEPARATOR = '␟';
+
+/**
+ * Compare an incoming TSV file with the current dataset by the schema's key columns.
+ * The current dataset is held in memory; the incoming file is streamed.
+ */
+export async function diffDatasets(
+  current: Blob,
+  incoming: Blob,
+  schema: FileSchema,
+  maxSampleRows: number = 200,
+  onProgress?: (percent: number) => void
+): Promise<DatasetDiff> {
+  const columns = schema.columns.map(column => column.name);
+  const keyIndexes = schema.keyColumns.map(key => columns.indexOf(key));
+  const keyOf = (row: string[]) => keyIndexes.map(index => row[index]).join(KEY_SEPARATOR);
+
+  const existing = new Map<string, string[]>();
+  await readRows(current, columns, row => existing.set(keyOf(row), row));
+  onProgress?.(30);
+
+  const addSample = <T>(samples: T[], item: T) => {
+    if (samples.length < maxSampleRows) {
+      samples.push(item);
+    }
+  };
+
+  const diff: DatasetDiff = {
+    columns,
+    keyColumns: schema.keyColumns,
+    addedCount: 0,
+    removedCount: 0,
+    changedCount: 0,
+    unchangedCount: 0,
+    added: [],
+    removed: [],
+    changed: [],
+    truncated: false
+  };
+
+  await readRows(
+    incoming,
+    columns,
+    row => {
+      const key = keyOf(row);
+      const before = existing.get(key);
+      if (!before) {
+        diff.addedCount++;
+        addSample(diff.added, row);
+        return;
+      }
+
+      existing.delete(key);
+      const changedColumns = columns
+        .map((_, index) => index)
+        .filter(index => before[index] !== row[index]);
+      if (changedColumns.length === 0) {
+        diff.unchangedCount++;
+      } else {
+        diff.changedCount++;
+        addSample(diff.changed, { key: key.split(KEY_SEPARATOR).join(' / '), before, after: row, changedColumns });
+      }
+    },
+    percent => onProgress?.(30 + Math.round(percent * 0.7))
+  );
+
+  existing.forEach(row => {
+    diff.removedCount++;
+    addSample(diff.removed, row);
+  });
+
+  diff.truncated = diff.addedCount > diff.added.length
+    || diff.removedCount > diff.removed.length
+    || diff.changedCount > diff.changed.length;
+  return diff;
+}
+
+/**
+ * Stream a TSV file, handing each data row over in the given column order
+ */
+async function readRows(
+  blob: Blob,
+  columns: string[],
+  onRow: (row: string[]) => void,
+  onProgress?: (percent: number) => void
+): Promise<void> {
+  let indexes: number[] = [];
+
+  await forEachLine(
+    blob,
+    (line, lineNumber) => {
+      const fields = splitTsvLine(line);
+      if (lineNumber === 1) {
+        const headers = fields.map(normalizeHeader);
+        indexes = columns.map(column => headers.indexOf(column));
+        return;
+      }
+      if (line.trim() !== '') {
+        onRow(indexes.map(index => index >= 0 ? fields[index] ?? '' : ''));
+      }
+    },
+    (bytesRead, totalBytes) => onProgress?.(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100)
+  );
+}
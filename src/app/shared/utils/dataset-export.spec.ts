@@ -0,0 +1,39 @@
+import { createExportStream } from './dataset-export';
+import { xlsxToTsv } from './xlsx-reader';
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+
+describe('createExportStream', () => {
+  const sales = new Blob([
+    'day\tsku\tchannel\tquantity\tdiscount\trevenue\n' +
+    '2024-01-01\tA,1\tweb\t3\t0.5\t100\n' +
+    '2024-02-01\tB\tstore\t1\t0\t50\n'
+  ]);
+
+  it('should select columns, filter rows and quote CSV values', async () => {
+    const output = createExportStream(sales.stream(), {
+      format: 'csv',
+      columns: ['sku', 'quantity'],
+      filters: [{ column: 'quantity', operator: 'gte', value: '2' }]
+    }, UPLOAD_SCHEMAS['sales']);
+
+    expect(await new Response(output).text()).toBe('sku,quantity\n"A,1",3\n');
+  });
+
+  it('should write JSON Lines with numeric columns as numbers', async () => {
+    const output = createExportStream(sales.stream(), {
+      format: 'jsonl',
+      columns: ['sku', 'revenue'],
+      filters: [{ column: 'channel', operator: 'equals', value: 'store' }]
+    }, UPLOAD_SCHEMAS['sales']);
+
+    expect(await new Response(output).text()).toBe('{"sku":"B","revenue":50}\n');
+  });
+
+  it('should write an XLSX workbook that reads back to the same rows', async () => {
+    const output = createExportStream(sales.stream(), { format: 'xlsx', columns: ['day', 'sku'], filters: [] });
+
+    const tsv = await xlsxToTsv(await new Response(output).blob());
+
+    expect(await tsv.text()).toBe('day\tsku\n2024-01-01\tA,1\n2024-02-01\tB\n');
+  });
+});
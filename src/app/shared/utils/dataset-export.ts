@@ -0,0 +1,239 @@
+import { ExportFilter, ExportOptions } from '../models/export.model';
+import { FileSchema } from '../models/upload-schema.model';
+import { createZipStream } from './archive';
+import { normalizeHeader, splitTsvLine } from './tsv-reader';
+
+export const XLSX_MAX_ROWS = 1048576;
+
+/**
+ * Turn a streamed TSV dataset into the requested export format, applying column selection and row filters.
+ * Rows are processed as they arrive, so the whole dataset is never held in memory.
+ */
+export function createExportStream(
+  source: ReadableStream<Uint8Array>,
+  options: ExportOptions,
+  schema?: FileSchema
+): ReadableStream<Uint8Array> {
+  const rows = source
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(splitLines())
+    .pipeThrough(selectRows(options));
+
+  const numericColumns = new Set(
+    (schema?.columns || []).filter(column => column.type === 'integer' || column.type === 'decimal').map(column => column.name)
+  );
+
+  switch (options.format) {
+    case 'xlsx':
+      return createXlsxStream(rows, numericColumns);
+    case 'jsonl':
+      return rows.pipeThrough(writeJsonLines(numericColumns)).pipeThrough(new TextEncoderStream());
+    case 'csv':
+      return rows.pipeThrough(writeLines(row => row.map(escapeCsv).join(','))).pipeThrough(new TextEncoderStream());
+    default:
+      return rows.pipeThrough(writeLines(row => row.join('\t'))).pipeThrough(new TextEncoderStream());
+  }
+}
+
+/**
+ * Whether a row passes every filter; values are looked up by column name
+ */
+export function matchesFilters(value: (column: string) => string, filters: ExportFilter[]): boolean {
+  return filters.every(filter => {
+    const actual = value(filter.column);
+    switch (filter.operator) {
+      case 'equals':
+        return actual === filter.value;
+      case 'not_equals':
+        return actual !== filter.value;
+      case 'contains':
+        return actual.toLowerCase().includes(filter.value.toLowerCase());
+      case 'gte':
+        return compareValues(actual, filter.value) >= 0;
+      case 'lte':
+        return compareValues(actual, filter.value) <= 0;
+    }
+  });
+}
+
+/**
+ * Numbers compare numerically, anything else (including ISO dates) as text
+ */
+function compareValues(a: string, b: string): number {
+  if (isNumeric(a) && isNumeric(b)) {
+    return Number(a) - Number(b);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== '' && !isNaN(Number(value));
+}
+
+function splitLines(): TransformStream<string, string> {
+  let carry = '';
+  return new TransformStream<string, string>({
+    transform(chunk, controller) {
+      const lines = (carry + chunk).split('\n');
+      carry = lines.pop() ?? '';
+      lines.forEach(line => controller.enqueue(line.replace(/\r$/, '')));
+    },
+    flush(controller) {
+      if (carry) {
+        controller.enqueue(carry.replace(/\r$/, ''));
+      }
+    }
+  });
+}
+
+/**
+ * Emit the selected header first, then every data row that passes the filters, projected onto the selected columns
+ */
+function selectRows(options: ExportOptions): TransformStream<string, string[]> {
+  let headerIndex: Map<string, number> | null = null;
+  let selected: number[] = [];
+
+  return new TransformStream<string, string[]>({
+    transform(line, controller) {
+      if (!headerIndex) {
+        const headers = splitTsvLine(line.replace(/^\uFEFF/, '')).map(normalizeHeader);
+        headerIndex = new Map(headers.map((header, index) => [header, index]));
+        const columns = options.columns.length > 0 ? options.columns : headers;
+        const missing = [...columns, ...options.filters.map(filter => filter.column)]
+          .filter(column => !headerIndex!.has(column));
+        if (missing.length > 0) {
+          throw new Error(`Columns not found in the dataset: ${[...new Set(missing)].join(', ')}`);
+        }
+        selected = columns.map(column => headerIndex!.get(column)!);
+        controller.enqueue(columns);
+        return;
+      }
+
+      if (line.trim() === '') {
+        return;
+      }
+      const fields = splitTsvLine(line);
+      const index = headerIndex;
+      if (matchesFilters(column => fields[index.get(column)!] ?? '', options.filters)) {
+        controller.enqueue(selected.map(i => fields[i] ?? ''));
+      }
+    }
+  });
+}
+
+function writeLines(format: (row: string[]) => string): TransformStream<string[], string> {
+  return new TransformStream<string[], string>({
+    transform(row, controller) {
+      controller.enqueue(format(row) + '\n');
+    }
+  });
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One JSON object per row, keyed by the header row; numeric schema columns are written as numbers
+ */
+function writeJsonLines(numericColumns: Set<string>): TransformStream<string[], string> {
+  let columns: string[] | null = null;
+  return new TransformStream<string[], string>({
+    transform(row, controller) {
+      if (!columns) {
+        columns = row;
+        return;
+      }
+      const record: { [column: string]: string | number } = {};
+      columns.forEach((column, index) => {
+        const value = row[index];
+        record[column] = numericColumns.has(column) && isNumeric(value) ? Number(value) : value;
+      });
+      controller.enqueue(JSON.stringify(record) + '\n');
+    }
+  });
+}
+
+/**
+ * Single-sheet workbook with inline strings, so no shared string table has to be built in memory
+ */
+function createXlsxStream(rows: ReadableStream<string[]>, numericColumns: Set<string>): ReadableStream<Uint8Array> {
+  const text = (content: string) => new Blob([content]).stream();
+  return createZipStream([
+    { name: '[Content_Types].xml', data: text(XLSX_CONTENT_TYPES) },
+    { name: '_rels/.rels', data: text(XLSX_ROOT_RELS) },
+    { name: 'xl/workbook.xml', data: text(XLSX_WORKBOOK) },
+    { name: 'xl/_rels/workbook.xml.rels', data: text(XLSX_WORKBOOK_RELS) },
+    { name: 'xl/worksheets/sheet1.xml', data: rows.pipeThrough(writeSheetXml(numericColumns)).pipeThrough(new TextEncoderStream()) }
+  ]);
+}
+
+function writeSheetXml(numericColumns: Set<string>): TransformStream<string[], string> {
+  let columns: string[] | null = null;
+  let rowCount = 0;
+
+  return new TransformStream<string[], string>({
+    start(controller) {
+      controller.enqueue(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+      );
+    },
+    transform(row, controller) {
+      const isHeader = !columns;
+      columns = columns || row;
+      if (++rowCount > XLSX_MAX_ROWS) {
+        throw new Error(`Excel sheets hold at most ${XLSX_MAX_ROWS.toLocaleString()} rows; add filters or export as TSV/CSV`);
+      }
+
+      const cells = row.map((value, index) => {
+        if (!isHeader && numericColumns.has(columns![index]) && isNumeric(value)) {
+          return `<c><v>${Number(value)}</v></c>`;
+        }
+        return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+      });
+      controller.enqueue(`<row>${cells.join('')}</row>`);
+    },
+    flush(controller) {
+      controller.enqueue('</sheetData></worksheet>');
+    }
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const XLSX_CONTENT_TYPES =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '</Types>';
+
+const XLSX_ROOT_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const XLSX_WORKBOOK =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  '<sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets>' +
+  '</workbook>';
+
+const XLSX_WORKBOOK_RELS =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '</Relationships>';
@@ -0,0 +1,36 @@
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { profileDataset } from './dataset-profile';
+
+describe('profileDataset', () => {
+  const sales = new Blob([
+    'day\tsku\tchannel\tquantity\tdiscount\trevenue\n' +
+    '2024-01-01\tA\tB1\t1\t0\t5\n' +
+    '2024-01-01\tB\tB1\t2\t\t10\n' +
+    '2024-01-04\tA\tB2\t3\t1.5\t7\n'
+  ]);
+
+  it('should count nulls and distinct values and compute numeric ranges', async () => {
+    const profile = await profileDataset(sales, UPLOAD_SCHEMAS['sales']);
+    const column = (name: string) => profile.columns.find(c => c.name === name)!;
+
+    expect(profile.rowCount).toBe(3);
+    expect(column('sku').distinctCount).toBe(2);
+    expect(column('discount').nullCount).toBe(1);
+    expect(column('discount').numeric).toEqual({ min: 0, max: 1.5, mean: 0.75 });
+    expect(column('quantity').numeric).toEqual({ min: 1, max: 3, mean: 2 });
+    expect(column('channel').topValues).toEqual([{ value: 'B1', count: 2 }, { value: 'B2', count: 1 }]);
+  });
+
+  it('should report days without rows in the date range', async () => {
+    const profile = await profileDataset(sales, UPLOAD_SCHEMAS['sales']);
+
+    expect(profile.dateCoverage).toEqual({
+      column: 'day',
+      from: '2024-01-01',
+      to: '2024-01-04',
+      days: 4,
+      daysWithData: 2,
+      missingDays: ['2024-01-02', '2024-01-03']
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { ColumnProfile, DatasetProfile, DateCoverage, FileSchema } from '../models/upload-schema.model';
+import { forEachLine, normalizeHeader, splitTsvLine } from './tsv-reader';
+
+/**
+ * Columns whose most frequent values are listed in a profile
+ */
+export const TOP_VALUE_COLUMNS = ['brand', 'category', 'sub_category', 'gender', 'city', 'channel', 'size'];
+
+// Distinct values are tracked up to this many per column to bound memory on large sales files
+const MAX_DISTINCT_VALUES = 100000;
+const MAX_MISSING_DAYS = 60;
+const DAY_MS = 86400000;
+
+interface ColumnAccumulator {
+  index: number;
+  profile: ColumnProfile;
+  distinct: Set<string>;
+  counts?: Map<string, number>;
+  min: number;
+  max: number;
+  sum: number;
+  numericCount: number;
+}
+
+/**
+ * Stream a TSV dataset and compute null/distinct counts, numeric ranges, top values and date coverage
+ */
+export async function profileDataset(
+  blob: Blob,
+  schema: FileSchema,
+  topN: number = 10,
+  onProgress?: (percent: number) => void
+): Promise<DatasetProfile> {
+  let accumulators: ColumnAccumulator[] = [];
+  let rowCount = 0;
+
+  await forEachLine(
+    blob,
+    (line, lineNumber) => {
+      const fields = splitTsvLine(line);
+      if (lineNumber === 1) {
+        const headers = fields.map(normalizeHeader);
+        accumulators = schema.columns.map(column => ({
+          index: headers.indexOf(column.name),
+          profile: { name: column.name, type: column.type, nullCount: 0, distinctCount: 0, distinctCapped: false },
+          distinct: new Set<string>(),
+          counts: TOP_VALUE_COLUMNS.includes(column.name) ? new Map<string, number>() : undefined,
+          min: Infinity,
+          max: -Infinity,
+          sum: 0,
+          numericCount: 0
+        }));
+        return;
+      }
+      if (line.trim() === '') {
+        return;
+      }
+
+      rowCount++;
+      accumulators.forEach(acc => accept(acc, acc.index >= 0 ? fields[acc.index] ?? '' : ''));
+    },
+    (bytesRead, totalBytes) => onProgress?.(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100)
+  );
+
+  const dateColumn = accumulators.find(acc => acc.profile.type === 'date');
+  return {
+    fileType: schema.fileType,
+    rowCount,
+    columns: accumulators.map(acc => finish(acc, topN)),
+    dateCoverage: dateColumn ? getDateCoverage(dateColumn) : undefined,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+function accept(acc: ColumnAccumulator, value: string): void {
+  if (value === '') {
+    acc.profile.nullCount++;
+    return;
+  }
+
+  if (acc.distinct.size < MAX_DISTINCT_VALUES) {
+    acc.distinct.add(value);
+  } else if (!acc.distinct.has(value)) {
+    acc.profile.distinctCapped = true;
+  }
+
+  if (acc.counts) {
+    acc.counts.set(value, (acc.counts.get(value) || 0) + 1);
+  }
+
+  if (acc.profile.type === 'integer' || acc.profile.type === 'decimal') {
+    const number = Number(value);
+    if (!isNaN(number)) {
+      acc.min = Math.min(acc.min, number);
+      acc.max = Math.max(acc.max, number);
+      acc.sum += number;
+      acc.numericCount++;
+    }
+  }
+}
+
+function finish(acc: ColumnAccumulator, topN: number): ColumnProfile {
+  const profile: ColumnProfile = { ...acc.profile, distinctCount: acc.distinct.size };
+  if (acc.numericCount > 0) {
+    profile.numeric = { min: acc.min, max: acc.max, mean: acc.sum / acc.numericCount };
+  }
+  if (acc.counts) {
+    profile.topValues = [...acc.counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, topN)
+      .map(([value, count]) => ({ value, count }));
+  }
+  return profile;
+}
+
+/**
+ * Coverage of a date column from its distinct values; only ISO (YYYY-MM-DD) dates are considered
+ */
+function getDateCoverage(acc: ColumnAccumulator): DateCoverage | undefined {
+  const days = [...acc.distinct].filter(value => /^\d{4}-\d{2}-\d{2}$/.test(value)).sort();
+  if (days.length === 0) {
+    return undefined;
+  }
+
+  const from = days[0];
+  const to = days[days.length - 1];
+  const present = new Set(days);
+  const missingDays: string[] = [];
+  const start = Date.parse(`${from}T00:00:00Z`);
+  const end = Date.parse(`${to}T00:00:00Z`);
+
+  for (let time = start; time <= end && missingDays.length < MAX_MISSING_DAYS; time += DAY_MS) {
+    const day = new Date(time).toISOString().slice(0, 10);
+    if (!present.has(day)) {
+      missingDays.push(day);
+    }
+  }
+
+  return {
+    column: acc.profile.name,
+    from,
+    to,
+    days: Math.round((end - start) / DAY_MS) + 1,
+    daysWithData: present.size,
+    missingDays
+  };
+}
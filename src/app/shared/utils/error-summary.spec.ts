@@ -0,0 +1,37 @@
+import { ValidationError } from '../models/upload-error.model';
+import { summarizeErrors } from './error-summary';
+
+describe('error summary', () => {
+  const error = (errorType: string, errorReason: string, fieldName?: string): ValidationError => ({
+    rowNumber: 1,
+    errorType,
+    errorReason,
+    fieldName
+  });
+
+  it('should count errors by type, field and reason, most frequent first', () => {
+    const summary = summarizeErrors([
+      error('FORMAT', 'Not a number', 'quantity'),
+      error('MISSING', 'Required value', 'sku'),
+      error('FORMAT', 'Not a number', 'quantity'),
+      error('FORMAT', 'Not a date', 'date'),
+      error('DUPLICATE', 'Duplicate row')
+    ], 5);
+
+    expect(summary.totalCount).toBe(5);
+    expect(summary.byErrorType[0]).toEqual({ errorType: 'FORMAT', count: 3 });
+    expect(summary.byFieldName.map(bucket => bucket.fieldName)).toEqual(['quantity', 'sku', 'date']);
+    expect(summary.topReasons[0]).toEqual({ errorType: 'FORMAT', errorReason: 'Not a number', fieldName: 'quantity', count: 2 });
+    expect(summary.topReasons.length).toBe(4);
+  });
+
+  it('should keep only the most frequent reasons', () => {
+    const summary = summarizeErrors([
+      error('FORMAT', 'Not a number', 'quantity'),
+      error('MISSING', 'Required value', 'sku'),
+      error('MISSING', 'Required value', 'sku')
+    ], 3, 1);
+
+    expect(summary.topReasons).toEqual([{ errorType: 'MISSING', errorReason: 'Required value', fieldName: 'sku', count: 2 }]);
+  });
+});
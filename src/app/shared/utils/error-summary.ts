@@ -0,0 +1,35 @@
+import { ErrorSummary, ValidationError } from '../models/upload-error.model';
+
+/**
+ * Count errors by type, field and reason, most frequent first
+ */
+export function summarizeErrors(errors: ValidationError[], totalCount: number, maxReasons: number = 10): ErrorSummary {
+  const byErrorType = new Map<string, number>();
+  const byFieldName = new Map<string, number>();
+  const reasons = new Map<string, ErrorSummary['topReasons'][number]>();
+
+  errors.forEach(error => {
+    byErrorType.set(error.errorType, (byErrorType.get(error.errorType) || 0) + 1);
+    if (error.fieldName) {
+      byFieldName.set(error.fieldName, (byFieldName.get(error.fieldName) || 0) + 1);
+    }
+    const key = JSON.stringify([error.errorType, error.errorReason, error.fieldName || '']);
+    const reason = reasons.get(key);
+    if (reason) {
+      reason.count++;
+    } else {
+      reasons.set(key, { errorType: error.errorType, errorReason: error.errorReason, fieldName: error.fieldName, count: 1 });
+    }
+  });
+
+  return {
+    totalCount,
+    byErrorType: sortByCount([...byErrorType].map(([errorType, count]) => ({ errorType, count }))),
+    byFieldName: sortByCount([...byFieldName].map(([fieldName, count]) => ({ fieldName, count }))),
+    topReasons: sortByCount([...reasons.values()]).slice(0, maxReasons)
+  };
+}
+
+function sortByCount<T extends { count: number }>(buckets: T[]): T[] {
+  return buckets.sort((a, b) => b.count - a.count);
+}
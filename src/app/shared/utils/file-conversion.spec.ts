@@ -0,0 +1,65 @@
+import { convertToTsv, delimitedToTsv, isFileChanged, needsConversion } from './file-conversion';
+
+describe('file conversion', () => {
+  it('should convert quoted CSV to TSV', async () => {
+    const csv = new Blob(['sku,style,size\r\n"SKU,1",ST1,M\r\n"SK""2","ST\n2",L\r\n']);
+
+    const result = await delimitedToTsv(csv);
+
+    expect(await result.text()).toBe('sku\tstyle\tsize\nSKU,1\tST1\tM\nSK"2\tST 2\tL\n');
+  });
+
+  it('should decompress and convert a gzipped CSV', async () => {
+    const csv = new Blob(['branch;city\nB1;Pune\n']);
+    const gzipped = await new Response(csv.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+
+    const result = await convertToTsv(gzipped, 'stores.csv.gz');
+
+    expect(result.fileName).toBe('stores.tsv');
+    expect(result.sourceFormat).toBe('csv');
+    expect(result.compression).toBe('gzip');
+    expect(await result.blob.text()).toBe('branch\tcity\nB1\tPune\n');
+  });
+
+  it('should re-encode UTF-16 text with CRLF line endings as UTF-8 with LF', async () => {
+    const text = '\uFEFFbranch\tcity\r\nB1\tZürich\r\n';
+    const utf16 = new Uint8Array(text.length * 2);
+    for (let i = 0; i < text.length; i++) {
+      utf16[i * 2] = text.charCodeAt(i) & 0xFF;
+      utf16[i * 2 + 1] = text.charCodeAt(i) >> 8;
+    }
+
+    const result = await convertToTsv(new Blob([utf16]), 'stores.txt');
+
+    expect(result.textFormat).toEqual({ encoding: 'UTF-16 LE', bom: true, delimiter: 'Tab', lineEnding: 'CRLF' });
+    expect(result.transcoded).toBeTrue();
+    expect(await result.blob.text()).toBe('branch\tcity\nB1\tZürich\n');
+  });
+
+  it('should leave a UTF-8 TSV with LF line endings as it is', async () => {
+    const tsv = new Blob(['branch\tcity\nB1\tPune\n']);
+
+    const result = await convertToTsv(tsv, 'stores.tsv');
+
+    expect(result.transcoded).toBeFalse();
+    expect(isFileChanged(result)).toBeFalse();
+    expect(result.blob).toBe(tsv);
+  });
+
+  it('should re-encode a Windows-1252 file whose accented rows only start after the sniffed sample', async () => {
+    const asciiRows = 'B1\tPune\n'.repeat(10000);
+    const bytes = new Uint8Array([...new TextEncoder().encode(`branch\tcity\n${asciiRows}B2\tZ`), 0xFC, 0x72, 0x69, 0x63, 0x68, 0x0A]);
+
+    const result = await convertToTsv(new Blob([bytes]), 'stores.tsv');
+
+    expect(result.textFormat?.encoding).toBe('Windows-1252');
+    expect(result.transcoded).toBeTrue();
+    expect((await result.blob.text()).endsWith('B2\tZürich\n')).toBeTrue();
+  });
+
+  it('should only convert formats other than TSV', () => {
+    expect(needsConversion('sales.tsv')).toBeFalse();
+    expect(needsConversion('sales.TXT')).toBeFalse();
+    expect(needsConversion('sales.xlsx')).toBeTrue();
+  });
+});
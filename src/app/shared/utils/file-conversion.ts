@@ -0,0 +1,208 @@
+import { ConvertedFile, TextFormat, UploadSourceFormat } from '../models/upload-schema.model';
+import { extractZipEntry, gunzip, readZipEntries } from './archive';
+import { SNIFF_BYTES, detectDelimiter, detectTextFormat, isUtf8, needsTranscoding, transcodeToUtf8 } from './text-format';
+import { readFirstLine } from './tsv-reader';
+import { xlsxToTsv } from './xlsx-reader';
+
+/**
+ * Extensions accepted by the upload pipeline; anything but plain TSV is converted first
+ */
+export const ACCEPTED_UPLOAD_EXTENSIONS = ['.tsv', '.txt', '.csv', '.xlsx', '.gz', '.zip'];
+
+/**
+ * Characters of CSV text processed between progress updates
+ */
+const CSV_PART_SIZE = 1024 * 1024;
+
+/**
+ * Lower-cased extension of a file name, including the dot
+ */
+export function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.substring(dot).toLowerCase() : '';
+}
+
+/**
+ * Whether a file has to be decompressed or converted before it can be uploaded as TSV
+ */
+export function needsConversion(fileName: string): boolean {
+  return !['.tsv', '.txt'].includes(getExtension(fileName));
+}
+
+/**
+ * Whether converting a file produced something other than the file as picked
+ */
+export function isFileChanged(converted: ConvertedFile): boolean {
+  return needsConversion(converted.sourceName) || converted.transcoded;
+}
+
+/**
+ * Decompress and convert a CSV, XLSX, gzip or zip file to canonical TSV.
+ * Text is re-encoded as UTF-8 with LF line endings; a TSV that already is comes back unchanged.
+ */
+export async function convertToTsv(
+  file: Blob,
+  fileName: string,
+  onProgress?: (percent: number) => void
+): Promise<ConvertedFile> {
+  let blob = file;
+  let name = fileName;
+  let compression: ConvertedFile['compression'] = null;
+
+  switch (getExtension(name)) {
+    case '.gz':
+      blob = await gunzip(blob);
+      name = name.substring(0, name.length - 3);
+      compression = 'gzip';
+      break;
+    case '.zip': {
+      const entries = (await readZipEntries(blob))
+        .filter(entry => !entry.name.startsWith('__MACOSX/') && ACCEPTED_UPLOAD_EXTENSIONS.includes(getExtension(entry.name)));
+      const entry = entries.find(e => !['.gz', '.zip'].includes(getExtension(e.name)));
+      if (!entry) {
+        throw new Error('The zip archive contains no .tsv, .txt, .csv or .xlsx file');
+      }
+      blob = await extractZipEntry(blob, entry);
+      name = entry.name.substring(entry.name.lastIndexOf('/') + 1);
+      compression = 'zip';
+      break;
+    }
+  }
+  onProgress?.(20);
+
+  const sourceFormat = getSourceFormat(name);
+  let textFormat: TextFormat | null = null;
+  let transcoded = false;
+  if (sourceFormat !== 'xlsx') {
+    textFormat = detectTextFormat(new Uint8Array(await blob.slice(0, SNIFF_BYTES).arrayBuffer()));
+    // A file kept as it is has to be UTF-8 beyond the sniffed sample too
+    if (!needsTranscoding(textFormat) && blob.size > SNIFF_BYTES && !(await isUtf8(blob))) {
+      textFormat = { ...textFormat, encoding: 'Windows-1252' };
+    }
+    if (needsTranscoding(textFormat)) {
+      const result = await transcodeToUtf8(blob, textFormat.encoding, percent => onProgress?.(20 + Math.round(percent * 0.4)));
+      blob = result.blob;
+      textFormat = { ...textFormat, encoding: result.encoding };
+      transcoded = true;
+    }
+  }
+  onProgress?.(60);
+
+  switch (sourceFormat) {
+    case 'xlsx':
+      blob = await xlsxToTsv(blob);
+      break;
+    case 'csv':
+      blob = await delimitedToTsv(blob, detectDelimiter(await readFirstLine(blob)).char, percent => {
+        onProgress?.(60 + Math.round(percent * 0.4));
+      });
+      break;
+  }
+  onProgress?.(100);
+
+  return {
+    blob,
+    fileName: `${name.replace(/\.[^.]*$/, '')}.tsv`,
+    sourceName: fileName,
+    sourceFormat,
+    compression,
+    textFormat,
+    transcoded
+  };
+}
+
+function getSourceFormat(fileName: string): UploadSourceFormat {
+  switch (getExtension(fileName)) {
+    case '.csv':
+      return 'csv';
+    case '.xlsx':
+      return 'xlsx';
+    case '.tsv':
+    case '.txt':
+      return 'tsv';
+    default:
+      throw new Error(`Unsupported file format '${getExtension(fileName) || fileName}'`);
+  }
+}
+
+/**
+ * Convert quoted delimited text (RFC 4180 style) to TSV.
+ * Quoted fields may contain the delimiter, doubled quotes and line breaks;
+ * tabs and line breaks inside a field become spaces.
+ */
+export async function delimitedToTsv(
+  blob: Blob,
+  delimiter: string = ',',
+  onProgress?: (percent: number) => void
+): Promise<Blob> {
+  const parts: string[] = [];
+  let output = '';
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let pendingQuote = false;
+
+  const endField = () => {
+    row.push(field.replace(/[\t\r\n]+/g, ' ').trim());
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') {
+      output += row.join('\t') + '\n';
+    }
+    row = [];
+  };
+
+  const reader = blob.stream().pipeThrough(new TextDecoderStream()).getReader();
+  let charsRead = 0;
+  const estimatedTotal = Math.max(blob.size, 1);
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    for (const char of value) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field.trim() === '') {
+        field = '';
+        inQuotes = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n') {
+        endRow();
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+
+    if (output.length >= CSV_PART_SIZE) {
+      parts.push(output);
+      output = '';
+    }
+    charsRead += value.length;
+    onProgress?.(Math.min(99, Math.round((charsRead / estimatedTotal) * 100)));
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  parts.push(output);
+  return new Blob(parts, { type: 'text/tab-separated-values' });
+}
@@ -0,0 +1,24 @@
+import { hashFile } from './file-hash';
+
+describe('file hash', () => {
+  it('should hash small files whole', async () => {
+    const hashed = await hashFile(new Blob(['abc']));
+
+    expect(hashed.sampled).toBeFalse();
+    expect(hashed.hash).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('should fingerprint large files from samples that still see changes at their ends', async () => {
+    const content = new Uint8Array(1000);
+    const original = await hashFile(new Blob([content]), 100, 10);
+    content[content.length - 1] = 1;
+    const changed = await hashFile(new Blob([content]), 100, 10);
+    content[200] = 1;
+    const unsampledChange = await hashFile(new Blob([content]), 100, 10);
+
+    expect(original.sampled).toBeTrue();
+    expect(original.hash).not.toBe(changed.hash);
+    // Bytes between the samples are not covered
+    expect(unsampledChange.hash).toBe(changed.hash);
+  });
+});
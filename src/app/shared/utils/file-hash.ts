@@ -0,0 +1,39 @@
+/**
+ * Content fingerprint of a file; hash is null where SubtleCrypto is unavailable
+ */
+export interface FileHash {
+  hash: string | null;
+  /** The hash covers samples of the file rather than all of it */
+  sampled: boolean;
+}
+
+/** Files up to this size are hashed whole */
+export const FULL_HASH_LIMIT_BYTES = 64 * 1024 * 1024;
+const SAMPLE_BYTES = 4 * 1024 * 1024;
+
+/**
+ * SHA-256 of a file's content as hex. SubtleCrypto has no streaming digest, so larger files are hashed
+ * from their size plus their first, middle and last few megabytes instead of being read into memory whole.
+ */
+export async function hashFile(
+  file: Blob,
+  fullHashLimitBytes: number = FULL_HASH_LIMIT_BYTES,
+  sampleBytes: number = SAMPLE_BYTES
+): Promise<FileHash> {
+  const sampled = file.size > fullHashLimitBytes;
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return { hash: null, sampled };
+  }
+
+  const middle = Math.floor((file.size - sampleBytes) / 2);
+  const content = sampled
+    ? new Blob([
+      `${file.size}:`,
+      file.slice(0, sampleBytes),
+      file.slice(middle, middle + sampleBytes),
+      file.slice(file.size - sampleBytes)
+    ])
+    : file;
+  const digest = await crypto.subtle.digest('SHA-256', await content.arrayBuffer());
+  return { hash: Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join(''), sampled };
+}
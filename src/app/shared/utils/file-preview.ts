@@ -0,0 +1,50 @@
+import { FilePreview } from '../models/upload-schema.model';
+import { forEachLine } from './tsv-reader';
+import { SNIFF_BYTES, detectDelimiter, detectTextFormat } from './text-format';
+import { detectFileType } from './tsv-validator';
+
+/**
+ * Parse the first rows of a delimited file and count the rest
+ */
+export async function buildFilePreview(
+  file: Blob,
+  maxRows: number = 300,
+  onProgress?: (percent: number) => void
+): Promise<FilePreview> {
+  const textFormat = detectTextFormat(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+  let headers: string[] = [];
+  let delimiter = detectDelimiter('');
+  const rows: string[][] = [];
+  let rowCount = 0;
+
+  await forEachLine(
+    file,
+    (line, lineNumber) => {
+      if (lineNumber === 1) {
+        delimiter = detectDelimiter(line);
+        headers = line.split(delimiter.char).map(field => field.trim());
+        return;
+      }
+      if (line.trim() === '') {
+        return;
+      }
+
+      rowCount++;
+      if (rows.length < maxRows) {
+        rows.push(line.split(delimiter.char).map(field => field.trim()));
+      }
+    },
+    (bytesRead, totalBytes) => onProgress?.(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100)
+  );
+
+  return {
+    headers,
+    rows,
+    rowCount,
+    delimiter: delimiter.name,
+    encoding: textFormat.encoding,
+    bom: textFormat.bom,
+    lineEnding: textFormat.lineEnding,
+    detectedFileType: detectFileType(headers)
+  };
+}
@@ -0,0 +1,55 @@
+import { completeRunParameters, formatRunParameter, parseRecordedParameters } from './recorded-parameters';
+
+describe('recorded parameters', () => {
+  it('should read parameters stored as JSON', () => {
+    const recorded = parseRecordedParameters(JSON.stringify({
+      parameterSetName: 'q1',
+      liquidationThreshold: 0.25,
+      bestsellerMultiplier: 1.2,
+      minVolumeThreshold: 25,
+      consistencyThreshold: 0.75,
+      analysisStartDate: '2019-01-01',
+      analysisEndDate: '2019-06-23T00:00:00',
+      coreDurationMonths: 6,
+      bestsellerDurationDays: 90
+    }));
+
+    expect(recorded?.missing).toEqual([]);
+    expect(recorded?.parameters.parameterSetName).toBe('q1');
+    expect(recorded?.parameters.liquidationThreshold).toBe(0.25);
+    expect(recorded?.parameters.analysisEndDate?.toISOString()).toBe('2019-06-23T00:00:00.000Z');
+  });
+
+  it('should read key=value pairs with loose key names and percentages', () => {
+    const recorded = parseRecordedParameters('liquidation_threshold=25; Bestseller Multiplier: 1.5, start_date=2020-02-01');
+
+    expect(recorded?.parameters.liquidationThreshold).toBe(0.25);
+    expect(recorded?.parameters.bestsellerMultiplier).toBe(1.5);
+    expect(recorded?.parameters.analysisStartDate?.toISOString()).toBe('2020-02-01T00:00:00.000Z');
+    expect(recorded?.missing).toContain('minVolumeThreshold');
+  });
+
+  it('should complete run parameters only when every one was recorded', () => {
+    const recorded = parseRecordedParameters(
+      'liquidationThreshold=0.25, bestsellerMultiplier=1.2, minVolumeThreshold=25, consistencyThreshold=0.75, '
+      + 'analysisStartDate=2019-01-01, analysisEndDate=2019-06-23, coreDurationMonths=6, bestsellerDurationDays=90'
+    )!;
+
+    expect(completeRunParameters(recorded.parameters, 'Task #7')?.parameterSetName).toBe('Task #7');
+    expect(completeRunParameters(recorded.parameters, 'Task #7')?.coreDurationMonths).toBe(6);
+    expect(completeRunParameters({ ...recorded.parameters, coreDurationMonths: undefined }, 'Task #7')).toBeNull();
+  });
+
+  it('should format parameters for display', () => {
+    expect(formatRunParameter('liquidationThreshold', 0.255)).toBe('25.5%');
+    expect(formatRunParameter('analysisStartDate', new Date('2019-01-01'))).toBe('2019-01-01');
+    expect(formatRunParameter('analysisEndDate', '2019-06-23T00:00:00.000Z')).toBe('2019-06-23');
+    expect(formatRunParameter('minVolumeThreshold', undefined)).toBe('—');
+  });
+
+  it('should return null when nothing is recognised', () => {
+    expect(parseRecordedParameters('')).toBeNull();
+    expect(parseRecordedParameters('{not json')).toBeNull();
+    expect(parseRecordedParameters('ran by scheduler')).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { AlgorithmParameters } from '../services/algorithm-parameters.service';
+
+/**
+ * Algorithm inputs read back from the parameters string stored with a task or analytics run
+ */
+export interface RecordedParameters {
+  parameters: Partial<AlgorithmParameters>;
+  /** Inputs a run needs that the record did not contain */
+  missing: RunParameter[];
+}
+
+export type RunParameter =
+  | 'liquidationThreshold'
+  | 'bestsellerMultiplier'
+  | 'minVolumeThreshold'
+  | 'consistencyThreshold'
+  | 'analysisStartDate'
+  | 'analysisEndDate'
+  | 'coreDurationMonths'
+  | 'bestsellerDurationDays';
+
+export const RUN_PARAMETERS: RunParameter[] = [
+  'liquidationThreshold',
+  'bestsellerMultiplier',
+  'minVolumeThreshold',
+  'consistencyThreshold',
+  'analysisStartDate',
+  'analysisEndDate',
+  'coreDurationMonths',
+  'bestsellerDurationDays'
+];
+
+export const RUN_PARAMETER_LABELS: { [parameter in RunParameter]: string } = {
+  liquidationThreshold: 'Liquidation Threshold',
+  bestsellerMultiplier: 'Bestseller Multiplier',
+  minVolumeThreshold: 'Min Volume Threshold',
+  consistencyThreshold: 'Consistency Threshold',
+  analysisStartDate: 'Analysis Start Date',
+  analysisEndDate: 'Analysis End Date',
+  coreDurationMonths: 'Core Duration (months)',
+  bestsellerDurationDays: 'Bestseller Duration (days)'
+};
+
+type DateParameter = 'analysisStartDate' | 'analysisEndDate';
+type NumberParameter = Exclude<RunParameter, DateParameter>;
+
+const PERCENT_PARAMETERS: NumberParameter[] = ['liquidationThreshold', 'consistencyThreshold'];
+const DATE_PARAMETERS: DateParameter[] = ['analysisStartDate', 'analysisEndDate'];
+
+function isDateParameter(parameter: RunParameter): parameter is DateParameter {
+  return (DATE_PARAMETERS as RunParameter[]).includes(parameter);
+}
+
+function isPercentParameter(parameter: RunParameter): parameter is NumberParameter {
+  return (PERCENT_PARAMETERS as RunParameter[]).includes(parameter);
+}
+
+/**
+ * Normalized key (lowercase, letters and digits only) → parameter it sets
+ */
+const KEY_ALIASES: { [key: string]: RunParameter | 'parameterSetName' } = {
+  ...Object.fromEntries(RUN_PARAMETERS.map(parameter => [normalizeKey(parameter), parameter])),
+  parametersetname: 'parameterSetName',
+  parameterset: 'parameterSetName',
+  algorithmlabel: 'parameterSetName',
+  startdate: 'analysisStartDate',
+  enddate: 'analysisEndDate'
+};
+
+/**
+ * Parse a stored parameters string: JSON (optionally wrapped in a "parameters" object)
+ * or key=value / key: value pairs separated by commas, semicolons, ampersands or new lines.
+ * Keys match in any case with or without separators, so liquidation_threshold works too.
+ * Percent thresholds above 1 are taken as percentages. Returns null when nothing is recognised.
+ */
+export function parseRecordedParameters(raw: string | null | undefined): RecordedParameters | null {
+  const entries = raw ? readEntries(raw.trim()) : null;
+  if (!entries) {
+    return null;
+  }
+
+  const names: Pick<Partial<AlgorithmParameters>, 'parameterSetName'> = {};
+  const dates: Partial<Record<DateParameter, Date>> = {};
+  const numbers: Partial<Record<NumberParameter, number>> = {};
+  entries.forEach(([key, value]) => {
+    const parameter = KEY_ALIASES[normalizeKey(key)];
+    if (!parameter || value === null || value === undefined || value === '') {
+      return;
+    }
+
+    if (parameter === 'parameterSetName') {
+      names.parameterSetName = String(value);
+    } else if (isDateParameter(parameter)) {
+      const date = /^\d{4}-\d{2}-\d{2}/.exec(String(value));
+      if (date) {
+        dates[parameter] = new Date(date[0]);
+      }
+    } else {
+      const number = typeof value === 'number' ? value : parseFloat(String(value));
+      if (!isNaN(number)) {
+        numbers[parameter] = isPercentParameter(parameter) && number > 1 ? number / 100 : number;
+      }
+    }
+  });
+
+  const parameters: Partial<AlgorithmParameters> = { ...names, ...dates, ...numbers };
+  if (Object.keys(parameters).length === 0) {
+    return null;
+  }
+  return { parameters, missing: RUN_PARAMETERS.filter(parameter => parameters[parameter] === undefined) };
+}
+
+/**
+ * Full algorithm parameters for a run from recorded ones, or null when any run parameter was not recorded.
+ * The recorded parameter set name wins over the fallback name.
+ */
+export function completeRunParameters(recorded: Partial<AlgorithmParameters>, parameterSetName: string): AlgorithmParameters | null {
+  const {
+    liquidationThreshold, bestsellerMultiplier, minVolumeThreshold, consistencyThreshold,
+    analysisStartDate, analysisEndDate, coreDurationMonths, bestsellerDurationDays
+  } = recorded;
+  if (
+    liquidationThreshold === undefined || bestsellerMultiplier === undefined || minVolumeThreshold === undefined
+    || consistencyThreshold === undefined || analysisStartDate === undefined || analysisEndDate === undefined
+    || coreDurationMonths === undefined || bestsellerDurationDays === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    parameterSetName: recorded.parameterSetName ?? parameterSetName,
+    isActive: true,
+    lastUpdated: new Date(),
+    liquidationThreshold,
+    bestsellerMultiplier,
+    minVolumeThreshold,
+    consistencyThreshold,
+    analysisStartDate,
+    analysisEndDate,
+    coreDurationMonths,
+    bestsellerDurationDays
+  };
+}
+
+/**
+ * Display form of one run parameter: thresholds as percentages, dates as yyyy-MM-dd, '—' when absent.
+ * Dates may be Date objects or the ISO strings they become once stored as JSON.
+ */
+export function formatRunParameter(parameter: RunParameter, value: number | Date | string | null | undefined): string {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (isDateParameter(parameter)) {
+    return (value instanceof Date ? value.toISOString() : String(value)).split('T')[0];
+  }
+  if (isPercentParameter(parameter)) {
+    return `${Math.round(Number(value) * 10000) / 100}%`;
+  }
+  return String(value);
+}
+
+function readEntries(raw: string): [string, unknown][] | null {
+  if (raw.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(raw);
+      const source = parsed && typeof parsed.parameters === 'object' && parsed.parameters !== null ? parsed.parameters : parsed;
+      return source && typeof source === 'object' ? Object.entries(source) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return raw
+    .split(/[,;&\n]+/)
+    .map(pair => /^\s*([\w .-]+?)\s*[=:]\s*(.*?)\s*$/.exec(pair))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map(match => [match[1], match[2].replace(/^["']|["']$/g, '')] as [string, unknown]);
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,37 @@
+import { checkReferences, excludeOrphanRows, ReferenceSource } from './reference-check';
+
+describe('reference check', () => {
+  const references: ReferenceSource[] = [
+    { column: 'sku', fileType: 'skus', data: new Blob(['sku\tstyle\tsize\nA\tS1\tM\nB\tS1\tL\n']) },
+    { column: 'channel', fileType: 'stores', data: new Blob(['branch\tcity\nB1\tPune\n']) }
+  ];
+  const sales = new Blob([
+    'day\tsku\tchannel\tquantity\tdiscount\trevenue\n' +
+    '2024-01-01\tA\tB1\t1\t0\t5\n' +
+    '2024-01-01\tX\tB1\t2\t0\t10\n' +
+    '2024-01-02\tX\tB9\t3\t0\t7\n' +
+    '2024-01-02\tB\tB1\t1\t0\t4\n'
+  ]);
+
+  it('should count rows whose sku or store is not loaded', async () => {
+    const result = await checkReferences(sales, references);
+
+    expect(result.rowCount).toBe(4);
+    expect(result.orphanRowCount).toBe(2);
+    expect(result.references[0]).toEqual(jasmine.objectContaining({
+      column: 'sku', orphanRowCount: 2, missingValueCount: 1, missingValues: [{ value: 'X', count: 2 }]
+    }));
+    expect(result.references[1].orphanRowCount).toBe(1);
+    expect(result.sampleRows.map(row => [row.rowNumber, row.orphanColumns])).toEqual([[3, [1]], [4, [1, 2]]]);
+  });
+
+  it('should drop orphan rows and keep the rest unchanged', async () => {
+    const filtered = await excludeOrphanRows(sales, references);
+
+    expect(await filtered.text()).toBe(
+      'day\tsku\tchannel\tquantity\tdiscount\trevenue\n' +
+      '2024-01-01\tA\tB1\t1\t0\t5\n' +
+      '2024-01-02\tB\tB1\t1\t0\t4\n'
+    );
+  });
+});
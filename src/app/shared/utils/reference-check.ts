@@ -0,0 +1,177 @@
+import { ColumnReference, OrphanReferenceSummary, ReferenceCheckResult, UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { forEachLine, normalizeHeader, splitTsvLine } from './tsv-reader';
+
+const LINES_PER_PART = 10000;
+const MISSING_VALUES_SHOWN = 10;
+
+/**
+ * A referenced dataset as downloaded, e.g. the loaded skus for sales.sku
+ */
+export interface ReferenceSource extends ColumnReference {
+  data: Blob;
+}
+
+interface ReferenceKeys extends ColumnReference {
+  keys: Set<string>;
+  /** Index of the referencing column in the checked file, -1 when it has no such column */
+  index: number;
+}
+
+/**
+ * Check each row of a TSV file against the key sets of the datasets it references.
+ * The referenced keys are held in memory; the file is streamed.
+ */
+export async function checkReferences(
+  file: Blob,
+  references: ReferenceSource[],
+  maxSampleRows: number = 50,
+  onProgress?: (percent: number) => void
+): Promise<ReferenceCheckResult> {
+  const keys = await loadReferenceKeys(references);
+  onProgress?.(30);
+
+  const missing = keys.map(() => new Map<string, number>());
+  const summaries: OrphanReferenceSummary[] = keys.map(reference => ({
+    column: reference.column,
+    fileType: reference.fileType,
+    orphanRowCount: 0,
+    missingValueCount: 0,
+    missingValues: []
+  }));
+  const result: ReferenceCheckResult = {
+    headers: [],
+    rowCount: 0,
+    orphanRowCount: 0,
+    references: summaries,
+    sampleRows: [],
+    truncated: false
+  };
+
+  await forEachLine(
+    file,
+    (line, lineNumber) => {
+      const fields = splitTsvLine(line);
+      if (lineNumber === 1) {
+        result.headers = fields;
+        resolveIndexes(keys, fields);
+        return;
+      }
+      if (line.trim() === '') {
+        return;
+      }
+
+      result.rowCount++;
+      const orphanColumns: number[] = [];
+      keys.forEach((reference, r) => {
+        if (reference.index < 0) {
+          return;
+        }
+        const value = fields[reference.index] ?? '';
+        if (!reference.keys.has(value)) {
+          orphanColumns.push(reference.index);
+          summaries[r].orphanRowCount++;
+          missing[r].set(value, (missing[r].get(value) || 0) + 1);
+        }
+      });
+
+      if (orphanColumns.length > 0) {
+        result.orphanRowCount++;
+        if (result.sampleRows.length < maxSampleRows) {
+          result.sampleRows.push({ rowNumber: lineNumber, values: fields, orphanColumns });
+        }
+      }
+    },
+    (bytesRead, totalBytes) => onProgress?.(30 + (totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 70) : 70))
+  );
+
+  summaries.forEach((summary, r) => {
+    summary.missingValueCount = missing[r].size;
+    summary.missingValues = [...missing[r]]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MISSING_VALUES_SHOWN)
+      .map(([value, count]) => ({ value, count }));
+  });
+  result.truncated = result.orphanRowCount > result.sampleRows.length;
+  return result;
+}
+
+/**
+ * Copy a TSV file without the rows whose references are not found. Kept rows are written unchanged.
+ */
+export async function excludeOrphanRows(
+  file: Blob,
+  references: ReferenceSource[],
+  onProgress?: (percent: number) => void
+): Promise<Blob> {
+  const keys = await loadReferenceKeys(references);
+  onProgress?.(30);
+
+  const parts: string[] = [];
+  let buffer: string[] = [];
+
+  await forEachLine(
+    file,
+    (line, lineNumber) => {
+      if (lineNumber === 1) {
+        resolveIndexes(keys, splitTsvLine(line));
+      } else if (line.trim() === '') {
+        return;
+      } else {
+        const fields = splitTsvLine(line);
+        if (keys.some(reference => reference.index >= 0 && !reference.keys.has(fields[reference.index] ?? ''))) {
+          return;
+        }
+      }
+
+      buffer.push(line);
+      if (buffer.length >= LINES_PER_PART) {
+        parts.push(buffer.join('\n') + '\n');
+        buffer = [];
+      }
+    },
+    (bytesRead, totalBytes) => onProgress?.(30 + (totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 70) : 70))
+  );
+
+  if (buffer.length > 0) {
+    parts.push(buffer.join('\n') + '\n');
+  }
+  return new Blob(parts, { type: file.type || 'text/tab-separated-values' });
+}
+
+/**
+ * Read the key column of each referenced dataset into a set
+ */
+async function loadReferenceKeys(references: ReferenceSource[]): Promise<ReferenceKeys[]> {
+  const loaded: ReferenceKeys[] = [];
+
+  for (const reference of references) {
+    const schema = UPLOAD_SCHEMAS[reference.fileType];
+    if (!schema) {
+      throw new Error(`No schema defined for file type '${reference.fileType}'`);
+    }
+
+    const keyColumn = schema.keyColumns[0];
+    const keys = new Set<string>();
+    let keyIndex = -1;
+    await forEachLine(reference.data, (line, lineNumber) => {
+      const fields = splitTsvLine(line);
+      if (lineNumber === 1) {
+        keyIndex = fields.map(normalizeHeader).indexOf(keyColumn);
+        if (keyIndex < 0) {
+          throw new Error(`Loaded ${reference.fileType} data has no '${keyColumn}' column`);
+        }
+      } else if (line.trim() !== '') {
+        keys.add(fields[keyIndex] ?? '');
+      }
+    });
+
+    loaded.push({ column: reference.column, fileType: reference.fileType, keys, index: -1 });
+  }
+
+  return loaded;
+}
+
+function resolveIndexes(references: ReferenceKeys[], headers: string[]): void {
+  const normalized = headers.map(normalizeHeader);
+  references.forEach(reference => reference.index = normalized.indexOf(reference.column));
+}
@@ -0,0 +1,33 @@
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { buildUploadTemplate, generateSampleDataset } from './sample-data';
+import { validateTsvFile } from './tsv-validator';
+
+describe('sample data', () => {
+  const options = { styles: 5, sizesPerStyle: 2, stores: 3, days: 4, salesPerDay: 10, startDate: '2024-01-01', seed: 7 };
+
+  it('should generate valid files whose sales reference generated skus and stores', async () => {
+    const dataset = await generateSampleDataset(options);
+
+    for (const fileType of ['styles', 'stores', 'skus', 'sales']) {
+      expect((await validateTsvFile(dataset[fileType], UPLOAD_SCHEMAS[fileType])).valid).toBeTrue();
+    }
+
+    const column = async (fileType: string, index: number) =>
+      (await dataset[fileType].text()).trim().split('\n').slice(1).map(line => line.split('\t')[index]);
+    const skus = new Set(await column('skus', 0));
+    const stores = new Set(await column('stores', 0));
+    const salesSkus = await column('sales', 1);
+    const salesStores = await column('sales', 2);
+
+    expect(salesSkus.length).toBe(40);
+    expect(salesSkus.every(sku => skus.has(sku))).toBeTrue();
+    expect(salesStores.every(store => stores.has(store))).toBeTrue();
+  });
+
+  it('should flag templates uploaded with their notes still in', async () => {
+    const result = await validateTsvFile(new Blob([buildUploadTemplate('stores')]), UPLOAD_SCHEMAS['stores']);
+
+    expect(result.valid).toBeFalse();
+    expect(result.errors.map(error => error.errorType)).toEqual(['TEMPLATE_NOTES']);
+  });
+});
@@ -0,0 +1,196 @@
+import { SampleDataset, SampleDatasetOptions, UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+
+/**
+ * What each column of an upload file holds, written as notes at the top of its template
+ */
+const COLUMN_NOTES: { [fileType: string]: { [column: string]: string } } = {
+  styles: {
+    style: 'Unique style code',
+    brand: 'Brand name',
+    category: 'Product category, e.g. TOPS',
+    sub_category: 'Product sub-category, e.g. TSHIRTS',
+    mrp: 'Maximum retail price, decimal',
+    gender: 'M, F or U'
+  },
+  stores: {
+    branch: 'Unique store branch code',
+    city: 'City the store is in'
+  },
+  skus: {
+    sku: 'Unique SKU code',
+    style: 'Style code from the styles file',
+    size: 'Size label, e.g. M or 32'
+  },
+  sales: {
+    day: 'Sale date, YYYY-MM-DD',
+    sku: 'SKU code from the skus file',
+    channel: 'Store branch code from the stores file',
+    quantity: 'Units sold, whole number',
+    discount: 'Discount given as a fraction of MRP, e.g. 0.15',
+    revenue: 'Revenue after discount, decimal'
+  }
+};
+
+const TEMPLATE_EXAMPLES: { [fileType: string]: string[][] } = {
+  styles: [
+    ['ST1001', 'Urbane', 'TOPS', 'TSHIRTS', '799.00', 'M'],
+    ['ST1002', 'Verde', 'BOTTOMS', 'JEANS', '1999.00', 'F']
+  ],
+  stores: [
+    ['BR001', 'Bengaluru'],
+    ['BR002', 'Mumbai']
+  ],
+  skus: [
+    ['ST1001-M', 'ST1001', 'M'],
+    ['ST1001-L', 'ST1001', 'L'],
+    ['ST1002-30', 'ST1002', '30']
+  ],
+  sales: [
+    ['2024-01-15', 'ST1001-M', 'BR001', '2', '0.10', '1438.20'],
+    ['2024-01-15', 'ST1002-30', 'BR002', '1', '0.00', '1999.00']
+  ]
+};
+
+/**
+ * Prefix of the note lines in a template; they have to be removed before the file is uploaded
+ */
+export const TEMPLATE_NOTE_PREFIX = '#';
+
+/**
+ * Template for a file type: notes describing each column, the header row and example rows
+ */
+export function buildUploadTemplate(fileType: string): string {
+  const schema = UPLOAD_SCHEMAS[fileType];
+  if (!schema) {
+    throw new Error(`No schema defined for file type '${fileType}'`);
+  }
+
+  const notes = [
+    `${TEMPLATE_NOTE_PREFIX} ${fileType} upload template. Delete these ${TEMPLATE_NOTE_PREFIX} lines and the example rows before uploading.`,
+    ...schema.columns.map(column =>
+      `${TEMPLATE_NOTE_PREFIX} ${column.name} (${column.type}${column.required ? ', required' : ''}): ${COLUMN_NOTES[fileType]?.[column.name] || ''}`
+    )
+  ];
+  const rows = [schema.columns.map(column => column.name), ...(TEMPLATE_EXAMPLES[fileType] || [])];
+  return [...notes, ...rows.map(row => row.join('\t'))].join('\n') + '\n';
+}
+
+const BRANDS = ['Urbane', 'Verde', 'Northline', 'Kavya', 'Solstice', 'Ember'];
+const CATEGORIES: { [category: string]: string[] } = {
+  TOPS: ['TSHIRTS', 'SHIRTS', 'KURTAS'],
+  BOTTOMS: ['JEANS', 'TROUSERS', 'SHORTS'],
+  FOOTWEAR: ['SNEAKERS', 'SANDALS'],
+  OUTERWEAR: ['JACKETS', 'SWEATERS']
+};
+const GENDERS = ['M', 'F', 'U'];
+const SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+const CITIES = ['Bengaluru', 'Mumbai', 'Delhi', 'Chennai', 'Hyderabad', 'Pune', 'Kolkata', 'Jaipur'];
+
+// Rows are joined into text in batches of this size to keep the number of Blob parts small
+const BATCH_ROWS = 10000;
+
+/**
+ * Generate styles, stores, skus and sales files that reference each other consistently:
+ * every sku belongs to a generated style, and every sale is for a generated sku at a generated store.
+ */
+export async function generateSampleDataset(
+  options: SampleDatasetOptions,
+  onProgress?: (percent: number) => void
+): Promise<SampleDataset> {
+  const random = createRandom(options.seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const categories = Object.keys(CATEGORIES);
+
+  const styles = Array.from({ length: options.styles }, (_, i) => {
+    const category = pick(categories);
+    return {
+      style: `ST${String(i + 1).padStart(5, '0')}`,
+      brand: pick(BRANDS),
+      category,
+      subCategory: pick(CATEGORIES[category]),
+      mrp: Math.round(299 + random() * 4700) + 0.99,
+      gender: pick(GENDERS)
+    };
+  });
+
+  const stores = Array.from({ length: options.stores }, (_, i) => ({
+    branch: `BR${String(i + 1).padStart(3, '0')}`,
+    city: pick(CITIES)
+  }));
+
+  const sizesPerStyle = Math.max(1, Math.min(options.sizesPerStyle, SIZES.length));
+  const skus = styles.flatMap(style => {
+    const first = Math.floor(random() * (SIZES.length - sizesPerStyle + 1));
+    return SIZES.slice(first, first + sizesPerStyle).map(size => ({ sku: `${style.style}-${size}`, style, size }));
+  });
+
+  const dataset: SampleDataset = {
+    styles: toTsv('styles', styles.map(s => [s.style, s.brand, s.category, s.subCategory, s.mrp.toFixed(2), s.gender])),
+    stores: toTsv('stores', stores.map(s => [s.branch, s.city])),
+    skus: toTsv('skus', skus.map(s => [s.sku, s.style.style, s.size]))
+  };
+  onProgress?.(5);
+
+  // Sales are keyed by (day, sku, channel), so each combination is used at most once per day
+  const salesPerDay = Math.min(options.salesPerDay, skus.length * stores.length);
+  const start = new Date(`${options.startDate}T00:00:00Z`);
+  const parts: string[] = [schemaHeader('sales')];
+  let batch: string[] = [];
+
+  for (let dayIndex = 0; dayIndex < options.days; dayIndex++) {
+    const day = new Date(start.getTime() + dayIndex * 86400000).toISOString().slice(0, 10);
+    const used = new Set<string>();
+
+    while (used.size < salesPerDay) {
+      const sku = pick(skus);
+      const store = pick(stores);
+      const key = `${sku.sku}|${store.branch}`;
+      if (used.has(key)) {
+        continue;
+      }
+      used.add(key);
+
+      const quantity = 1 + Math.floor(random() * 4);
+      const discount = Math.round(random() * random() * 50) / 100;
+      const revenue = sku.style.mrp * quantity * (1 - discount);
+      batch.push([day, sku.sku, store.branch, quantity, discount.toFixed(2), revenue.toFixed(2)].join('\t'));
+
+      if (batch.length >= BATCH_ROWS) {
+        parts.push(batch.join('\n') + '\n');
+        batch = [];
+      }
+    }
+
+    onProgress?.(5 + Math.round(((dayIndex + 1) / options.days) * 95));
+    // Let progress messages through between days
+    await Promise.resolve();
+  }
+  if (batch.length > 0) {
+    parts.push(batch.join('\n') + '\n');
+  }
+
+  dataset['sales'] = new Blob(parts, { type: 'text/tab-separated-values' });
+  return dataset;
+}
+
+function schemaHeader(fileType: string): string {
+  return UPLOAD_SCHEMAS[fileType].columns.map(column => column.name).join('\t') + '\n';
+}
+
+function toTsv(fileType: string, rows: (string | number)[][]): Blob {
+  return new Blob([schemaHeader(fileType), rows.map(row => row.join('\t')).join('\n') + '\n'], { type: 'text/tab-separated-values' });
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so a seed reproduces the same dataset
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,17 @@
+import { DEFAULT_TASK_POLLING, TaskPollingOptions, nextPollDelay } from './task-polling';
+
+describe('task polling', () => {
+  const options: TaskPollingOptions = { ...DEFAULT_TASK_POLLING, initialDelayMs: 1000, maxDelayMs: 5000, backoffFactor: 2, jitter: 0 };
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect([0, 1, 2, 3, 4].map(idlePolls => nextPollDelay(idlePolls, options))).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it('should spread the delay by the jitter fraction', () => {
+    const jittered = { ...options, jitter: 0.2 };
+
+    expect(nextPollDelay(1, jittered, () => 0)).toBe(1600);
+    expect(nextPollDelay(1, jittered, () => 0.5)).toBe(2000);
+    expect(nextPollDelay(1, jittered, () => 1)).toBe(2400);
+  });
+});
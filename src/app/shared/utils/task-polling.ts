@@ -0,0 +1,41 @@
+/**
+ * How often and for how long a task is polled
+ */
+export interface TaskPollingOptions {
+  /** Delay before the second poll and after any poll that saw the task change */
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Growth of the delay for each poll that saw no change or failed */
+  backoffFactor: number;
+  /** Fraction of the delay randomly added or removed so watchers do not poll in lockstep */
+  jitter: number;
+  /** Give up once the task has been watched this long */
+  maxDurationMs: number;
+  /** Give up after this many failed polls in a row */
+  maxConsecutiveErrors: number;
+  /** Start polling when the realtime channel is open but has pushed nothing for the task this long */
+  liveIdleTimeoutMs: number;
+}
+
+export const DEFAULT_TASK_POLLING: TaskPollingOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 15000,
+  backoffFactor: 1.5,
+  jitter: 0.2,
+  maxDurationMs: 20 * 60 * 1000,
+  maxConsecutiveErrors: 5,
+  liveIdleTimeoutMs: 2 * 60 * 1000
+};
+
+/**
+ * Delay before the next poll after `idlePolls` polls in a row that saw no change
+ */
+export function nextPollDelay(
+  idlePolls: number,
+  options: TaskPollingOptions,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * Math.pow(options.backoffFactor, idlePolls));
+  const spread = base * options.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
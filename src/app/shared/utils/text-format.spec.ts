@@ -0,0 +1,51 @@
+import { detectDelimiter, detectEncoding, detectLineEnding, detectTextFormat, transcodeToUtf8 } from './text-format';
+
+describe('text format', () => {
+  const utf16 = (text: string, littleEndian: boolean): Uint8Array => {
+    const bytes = new Uint8Array(text.length * 2);
+    for (let i = 0; i < text.length; i++) {
+      bytes[i * 2 + (littleEndian ? 0 : 1)] = text.charCodeAt(i) & 0xFF;
+      bytes[i * 2 + (littleEndian ? 1 : 0)] = text.charCodeAt(i) >> 8;
+    }
+    return bytes;
+  };
+
+  it('should recognise UTF-16 without a BOM from its zero bytes', () => {
+    const text = 'branch\tcity\nB1\tPune\n';
+
+    expect(detectEncoding(utf16(text, true))).toBe('UTF-16 LE');
+    expect(detectEncoding(utf16(text, false))).toBe('UTF-16 BE');
+    expect(detectTextFormat(utf16(text, true))).toEqual({ encoding: 'UTF-16 LE', bom: false, delimiter: 'Tab', lineEnding: 'LF' });
+  });
+
+  it('should treat text that is not valid UTF-8 as Windows-1252', () => {
+    // "Zürich" with ü as the single Windows-1252 byte 0xFC
+    const bytes = new Uint8Array([...new TextEncoder().encode('city\nZ'), 0xFC, ...new TextEncoder().encode('rich\n')]);
+
+    expect(detectEncoding(bytes)).toBe('Windows-1252');
+    expect(detectEncoding(new TextEncoder().encode('city\nZürich\n'))).toBe('UTF-8');
+  });
+
+  it('should tell CR, CRLF and mixed line endings apart', () => {
+    expect(detectLineEnding('a\rb\r')).toBe('CR');
+    expect(detectLineEnding('a\r\nb\r\n')).toBe('CRLF');
+    expect(detectLineEnding('a\r\nb\nc')).toBe('Mixed');
+    expect(detectLineEnding('a')).toBe('None');
+  });
+
+  it('should pick the most frequent delimiter and prefer tab on a tie', () => {
+    expect(detectDelimiter('a;b;c,d').name).toBe('Semicolon');
+    expect(detectDelimiter('a\tb,c').name).toBe('Tab');
+    expect(detectDelimiter('a,b|c').name).toBe('Comma');
+    expect(detectDelimiter('abc').name).toBe('Tab');
+  });
+
+  it('should fall back to Windows-1252 when text sniffed as UTF-8 has invalid bytes further on', async () => {
+    const bytes = new Uint8Array([...new TextEncoder().encode('city\r\nZ'), 0xFC, ...new TextEncoder().encode('rich\r\n')]);
+
+    const result = await transcodeToUtf8(new Blob([bytes]), 'UTF-8');
+
+    expect(result.encoding).toBe('Windows-1252');
+    expect(await result.blob.text()).toBe('city\nZürich\n');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Helpers for sniffing the format of delimited text files
+ */
+import { LineEnding, TextFormat } from '../models/upload-schema.model';
+
+export interface DelimiterInfo {
+  char: string;
+  name: string;
+}
+
+/**
+ * Text re-encoded as UTF-8 and the encoding it was actually decoded from
+ */
+export interface TranscodedText {
+  blob: Blob;
+  encoding: string;
+}
+
+/**
+ * Bytes read to detect the encoding and line endings of a text file
+ */
+export const SNIFF_BYTES = 64 * 1024;
+
+const CANDIDATE_DELIMITERS: DelimiterInfo[] = [
+  { char: '\t', name: 'Tab' },
+  { char: ',', name: 'Comma' },
+  { char: ';', name: 'Semicolon' },
+  { char: '|', name: 'Pipe' }
+];
+
+/**
+ * TextDecoder label for each encoding name detectEncoding returns
+ */
+const DECODER_LABELS: { [encoding: string]: string } = {
+  'UTF-8': 'utf-8',
+  'UTF-16 LE': 'utf-16le',
+  'UTF-16 BE': 'utf-16be',
+  'Windows-1252': 'windows-1252'
+};
+
+/**
+ * Pick the candidate delimiter that occurs most often in a header line (tab wins ties)
+ */
+export function detectDelimiter(line: string): DelimiterInfo {
+  let best = CANDIDATE_DELIMITERS[0];
+  let bestCount = 0;
+
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const count = line.split(candidate.char).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Guess the text encoding from the leading bytes of a file
+ */
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return 'UTF-8 (BOM)';
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return 'UTF-16 LE';
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return 'UTF-16 BE';
+  }
+
+  // UTF-16 without a BOM: mostly-ASCII text has a zero in every other byte
+  const pairs = Math.floor(Math.min(bytes.length, 4096) / 2);
+  if (pairs > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+      evenZeros += bytes[i] === 0 ? 1 : 0;
+      oddZeros += bytes[i + 1] === 0 ? 1 : 0;
+    }
+    if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) {
+      return 'UTF-16 LE';
+    }
+    if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) {
+      return 'UTF-16 BE';
+    }
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'UTF-8';
+  } catch {
+    return 'Windows-1252';
+  }
+}
+
+/**
+ * Line ending style used in a piece of text
+ */
+export function detectLineEnding(text: string): LineEnding {
+  const crlf = (text.match(/\r\n/g) || []).length;
+  const cr = (text.match(/\r(?!\n)/g) || []).length;
+  const lf = (text.match(/(?<!\r)\n/g) || []).length;
+
+  const styles = [crlf, cr, lf].filter(count => count > 0).length;
+  if (styles === 0) {
+    return 'None';
+  }
+  if (styles > 1) {
+    return 'Mixed';
+  }
+  return crlf > 0 ? 'CRLF' : cr > 0 ? 'CR' : 'LF';
+}
+
+/**
+ * Sniff encoding, BOM, delimiter and line endings from the leading bytes of a file
+ */
+export function detectTextFormat(bytes: Uint8Array): TextFormat {
+  const detected = detectEncoding(bytes);
+  const bom = detected === 'UTF-8 (BOM)' || ((detected === 'UTF-16 LE' || detected === 'UTF-16 BE') && hasUtf16Bom(bytes));
+  const encoding = detected === 'UTF-8 (BOM)' ? 'UTF-8' : detected;
+
+  // A sample may end mid-character or between the CR and LF of a line break
+  const text = new TextDecoder(getDecoderLabel(encoding)).decode(bytes).replace(/\r$/, '');
+  const firstLine = text.split(/\r\n|\r|\n/)[0] || '';
+
+  return {
+    encoding,
+    bom,
+    delimiter: detectDelimiter(firstLine).name,
+    lineEnding: detectLineEnding(text)
+  };
+}
+
+/**
+ * Whether text in this format has to be rewritten to be UTF-8 with LF line endings and no BOM
+ */
+export function needsTranscoding(format: TextFormat): boolean {
+  return format.encoding !== 'UTF-8' || format.bom || !['LF', 'None'].includes(format.lineEnding);
+}
+
+/**
+ * Whether a whole file decodes as UTF-8. The sniffed sample can be plain ASCII while later rows are not.
+ */
+export async function isUtf8(blob: Blob): Promise<boolean> {
+  const reader = blob.stream().pipeThrough(new TextDecoderStream('utf-8', { fatal: true })).getReader();
+  try {
+    let done = false;
+    while (!done) {
+      ({ done } = await reader.read());
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-encode a text file as UTF-8 without a BOM and with LF line endings.
+ * Text sniffed as UTF-8 that turns out not to be is decoded again as Windows-1252.
+ */
+export async function transcodeToUtf8(
+  blob: Blob,
+  encoding: string,
+  onProgress?: (percent: number) => void
+): Promise<TranscodedText> {
+  try {
+    return { blob: await decodeToUtf8(blob, encoding, onProgress), encoding };
+  } catch (error) {
+    if (encoding !== 'UTF-8' || !(error instanceof TypeError)) {
+      throw error;
+    }
+    return { blob: await decodeToUtf8(blob, 'Windows-1252', onProgress), encoding: 'Windows-1252' };
+  }
+}
+
+async function decodeToUtf8(blob: Blob, encoding: string, onProgress?: (percent: number) => void): Promise<Blob> {
+  // TextDecoderStream drops a leading BOM of the encoding it decodes; fatal makes invalid bytes fail the read
+  const decoder = new TextDecoderStream(getDecoderLabel(encoding), { fatal: true });
+  const reader = blob.stream().pipeThrough(decoder).getReader();
+  const bytesPerChar = encoding.startsWith('UTF-16') ? 2 : 1;
+  const parts: string[] = [];
+  let charsRead = 0;
+  let pendingCr = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    // Hold back a trailing CR in case the LF of its CRLF is in the next chunk
+    let text: string = (pendingCr ? '\r' : '') + value;
+    pendingCr = text.endsWith('\r');
+    if (pendingCr) {
+      text = text.slice(0, -1);
+    }
+    parts.push(text.replace(/\r\n?/g, '\n'));
+
+    charsRead += value.length;
+    onProgress?.(Math.min(99, Math.round((charsRead * bytesPerChar / Math.max(blob.size, 1)) * 100)));
+  }
+
+  if (pendingCr) {
+    parts.push('\n');
+  }
+  return new Blob(parts, { type: 'text/tab-separated-values' });
+}
+
+/**
+ * Short description of a text format, e.g. "UTF-16 LE with BOM, CRLF line endings"
+ */
+export function describeTextFormat(format: TextFormat): string {
+  const encoding = format.bom ? `${format.encoding} with BOM` : format.encoding;
+  return ['LF', 'None'].includes(format.lineEnding) ? encoding : `${encoding}, ${format.lineEnding} line endings`;
+}
+
+function getDecoderLabel(encoding: string): string {
+  return DECODER_LABELS[encoding] || 'utf-8';
+}
+
+function hasUtf16Bom(bytes: Uint8Array): boolean {
+  return (bytes[0] === 0xFF && bytes[1] === 0xFE) || (bytes[0] === 0xFE && bytes[1] === 0xFF);
+}
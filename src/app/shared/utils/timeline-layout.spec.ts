@@ -0,0 +1,54 @@
+import { Task } from '../models/task.model';
+import { layoutTimeline, timelineTicks } from './timeline-layout';
+
+describe('timeline layout', () => {
+  const hour = 60 * 60 * 1000;
+  const windowStart = Date.UTC(2024, 0, 1, 0);
+  const windowEnd = windowStart + 10 * hour;
+
+  const task = (id: number, taskType: string, startHour: number, endHour?: number, status: Task['status'] = 'COMPLETED'): Task => ({
+    id,
+    taskType,
+    status,
+    startTime: new Date(windowStart + startHour * hour).toISOString(),
+    endTime: endHour === undefined ? undefined : new Date(windowStart + endHour * hour).toISOString(),
+    createdDate: new Date(windowStart + startHour * hour).toISOString()
+  });
+
+  it('should put each task type in its own lane and stack overlapping tasks of one type', () => {
+    const lanes = layoutTimeline([
+      task(1, 'UPLOAD_SALES', 1, 4),
+      task(2, 'UPLOAD_SALES', 2, 3),
+      task(3, 'UPLOAD_SALES', 5, 6),
+      task(4, 'RUN_NOOS', 3, 8)
+    ], windowStart, windowEnd, windowEnd);
+
+    expect(lanes.map(lane => lane.taskType)).toEqual(['RUN_NOOS', 'UPLOAD_SALES']);
+    expect(lanes[1].rows).toBe(2);
+    expect(lanes[1].bars.map(bar => [bar.task.id, bar.row])).toEqual([[1, 0], [2, 1], [3, 0]]);
+    expect(lanes[0].bars[0].start).toBeCloseTo(0.3);
+    expect(lanes[0].bars[0].end).toBeCloseTo(0.8);
+  });
+
+  it('should clip tasks to the window, run unfinished tasks up to now and drop tasks outside it', () => {
+    const lanes = layoutTimeline([
+      task(1, 'RUN_NOOS', -2, 1),
+      task(2, 'RUN_NOOS', 6, undefined, 'RUNNING'),
+      task(3, 'RUN_NOOS', 12, 13)
+    ], windowStart, windowEnd, windowStart + 7 * hour);
+
+    const bars = lanes[0].bars;
+    expect(bars.map(bar => bar.task.id)).toEqual([1, 2]);
+    expect(bars[0].start).toBe(0);
+    expect(bars[0].clippedStart).toBeTrue();
+    expect(bars[1].end).toBeCloseTo(0.7);
+  });
+
+  it('should space ticks by a whole step within the window', () => {
+    const ticks = timelineTicks(windowStart, windowEnd, 6);
+
+    expect(ticks.length).toBeLessThanOrEqual(6);
+    expect(ticks[1].time - ticks[0].time).toBe(2 * hour);
+    ticks.forEach(tick => expect(tick.position).toBeGreaterThanOrEqual(0));
+  });
+});
@@ -0,0 +1,115 @@
+import { Task, isTaskFinished } from '../models/task.model';
+
+/**
+ * A task placed on the timeline. start and end are fractions of the visible window (0 to 1).
+ */
+export interface TimelineBar {
+  task: Task;
+  start: number;
+  end: number;
+  /** Row within the lane, so tasks of one type that overlap do not hide each other */
+  row: number;
+  /** The task began before or ends after the visible window */
+  clippedStart: boolean;
+  clippedEnd: boolean;
+}
+
+/**
+ * One swim-lane per task type
+ */
+export interface TimelineLane {
+  taskType: string;
+  rows: number;
+  bars: TimelineBar[];
+}
+
+export interface TimelineTick {
+  time: number;
+  /** Fraction of the visible window */
+  position: number;
+  /** Tick falls on a local midnight or the ticks are a day or more apart, so it is labelled with a date */
+  isDate: boolean;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const TICK_STEPS = [5 * MINUTE, 15 * MINUTE, 30 * MINUTE, HOUR, 2 * HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, DAY, 2 * DAY, 7 * DAY];
+
+/**
+ * Time a task ran, in epoch milliseconds; tasks still running end now
+ */
+export function getTaskInterval(task: Task, now: number): { start: number; end: number } {
+  const start = new Date(task.startTime || task.createdDate).getTime();
+  const end = task.endTime ? new Date(task.endTime).getTime() : isTaskFinished(task) ? start : now;
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Lay out the tasks that overlap a window into swim-lanes sorted by task type,
+ * stacking tasks of the same type that ran at the same time into separate rows
+ */
+export function layoutTimeline(tasks: Task[], windowStart: number, windowEnd: number, now: number): TimelineLane[] {
+  const span = windowEnd - windowStart;
+  const lanes = new Map<string, TimelineLane>();
+  const rowEnds = new Map<string, number[]>();
+
+  tasks
+    .map(task => ({ task, ...getTaskInterval(task, now) }))
+    .filter(interval => !isNaN(interval.start) && interval.end >= windowStart && interval.start <= windowEnd)
+    .sort((a, b) => a.start - b.start || a.task.id - b.task.id)
+    .forEach(({ task, start, end }) => {
+      const type = task.taskType;
+      if (!lanes.has(type)) {
+        lanes.set(type, { taskType: type, rows: 0, bars: [] });
+        rowEnds.set(type, []);
+      }
+      const lane = lanes.get(type)!;
+      const ends = rowEnds.get(type)!;
+
+      let row = ends.findIndex(rowEnd => rowEnd <= start);
+      if (row === -1) {
+        row = ends.length;
+      }
+      ends[row] = end;
+      lane.rows = ends.length;
+      lane.bars.push({
+        task,
+        start: Math.max(0, (start - windowStart) / span),
+        end: Math.min(1, (end - windowStart) / span),
+        row,
+        clippedStart: start < windowStart,
+        clippedEnd: end > windowEnd
+      });
+    });
+
+  return [...lanes.values()].sort((a, b) => a.taskType.localeCompare(b.taskType));
+}
+
+/**
+ * Evenly spaced axis ticks for a window, at most maxTicks of them, aligned to local time
+ */
+export function timelineTicks(windowStart: number, windowEnd: number, maxTicks: number = 8): TimelineTick[] {
+  const span = windowEnd - windowStart;
+  const step = TICK_STEPS.find(candidate => span / candidate <= maxTicks) || TICK_STEPS[TICK_STEPS.length - 1];
+
+  const anchor = new Date(windowStart);
+  anchor.setHours(0, 0, 0, 0);
+  const ticks: TimelineTick[] = [];
+  for (let time = anchor.getTime() + Math.ceil((windowStart - anchor.getTime()) / step) * step; time <= windowEnd; time += step) {
+    const date = new Date(time);
+    ticks.push({
+      time,
+      position: (time - windowStart) / span,
+      isDate: step >= DAY || (date.getHours() === 0 && date.getMinutes() === 0)
+    });
+  }
+  return ticks;
+}
+
+/**
+ * Whether two bars ran at the same time, e.g. a NOOS run overlapping the upload it may have waited on
+ */
+export function barsOverlap(a: TimelineBar, b: TimelineBar): boolean {
+  return a.start < b.end && b.start < a.end;
+}
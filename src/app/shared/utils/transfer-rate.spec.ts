@@ -0,0 +1,32 @@
+import { createTransferMeter, formatDuration } from './transfer-rate';
+
+describe('transfer rate', () => {
+  it('should estimate throughput and time left from byte counts', () => {
+    let time = 0;
+    const meter = createTransferMeter(10_000_000, () => time);
+
+    time = 1000;
+    expect(meter(1_000_000)).toEqual({ bytesSent: 1_000_000, totalBytes: 10_000_000, bytesPerSecond: 1_000_000, etaSeconds: 9 });
+
+    time = 2000;
+    const progress = meter(3_000_000);
+    expect(progress.bytesPerSecond).toBe(1_300_000);
+    expect(progress.etaSeconds).toBeCloseTo(7 / 1.3);
+  });
+
+  it('should keep the rate when a retried request starts again from zero', () => {
+    let time = 0;
+    const meter = createTransferMeter(4_000_000, () => time);
+
+    time = 1000;
+    meter(2_000_000);
+    time = 1500;
+    expect(meter(0).bytesPerSecond).toBe(2_000_000);
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(45)).toBe('45s');
+    expect(formatDuration(200)).toBe('3m 20s');
+    expect(formatDuration(3900)).toBe('1h 5m');
+  });
+});
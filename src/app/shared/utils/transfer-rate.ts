@@ -0,0 +1,62 @@
+/**
+ * Bytes sent so far of an upload, with smoothed throughput and estimated time left
+ */
+export interface TransferProgress {
+  bytesSent: number;
+  totalBytes: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+}
+
+// Weight of the newest sample in the moving average of the transfer rate
+const RATE_SMOOTHING = 0.3;
+
+/**
+ * Turn successive byte counts of one transfer into TransferProgress.
+ * A count lower than the previous one (a retried request) restarts the sample without resetting the rate.
+ */
+export function createTransferMeter(
+  totalBytes: number,
+  now: () => number = () => Date.now()
+): (bytesSent: number) => TransferProgress {
+  let lastTime = now();
+  let lastBytes = 0;
+  let rate = 0;
+
+  return (bytesSent: number) => {
+    const time = now();
+    const elapsedSeconds = (time - lastTime) / 1000;
+
+    if (bytesSent < lastBytes) {
+      lastBytes = bytesSent;
+      lastTime = time;
+    } else if (elapsedSeconds > 0) {
+      const sample = (bytesSent - lastBytes) / elapsedSeconds;
+      rate = rate === 0 ? sample : rate + RATE_SMOOTHING * (sample - rate);
+      lastBytes = bytesSent;
+      lastTime = time;
+    }
+
+    return {
+      bytesSent,
+      totalBytes,
+      bytesPerSecond: rate,
+      etaSeconds: rate > 0 ? Math.max(0, (totalBytes - bytesSent) / rate) : null
+    };
+  };
+}
+
+/**
+ * Compact duration such as "45s", "3m 20s" or "1h 5m"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+}
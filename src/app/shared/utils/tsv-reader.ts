@@ -0,0 +1,85 @@
+/**
+ * Streaming line reader for delimited text files.
+ * Usable from both the main thread and web workers.
+ */
+
+/**
+ * Callback for each line; return false to stop reading early
+ */
+export type LineHandler = (line: string, lineNumber: number) => boolean | void;
+
+/**
+ * Read a Blob line by line without loading it into memory at once
+ */
+export async function forEachLine(
+  blob: Blob,
+  onLine: LineHandler,
+  onProgress?: (bytesRead: number, totalBytes: number) => void
+): Promise<void> {
+  const reader = blob.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  let bytesRead = 0;
+  let lineNumber = 0;
+  let carry = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      bytesRead += value.byteLength;
+      const lines = (carry + decoder.decode(value, { stream: true })).split('\n');
+      carry = lines.pop() ?? '';
+
+      for (const line of lines) {
+        lineNumber++;
+        if (onLine(stripCarriageReturn(line), lineNumber) === false) {
+          await reader.cancel();
+          return;
+        }
+      }
+
+      onProgress?.(bytesRead, blob.size);
+    }
+
+    carry += decoder.decode();
+    if (carry.length > 0) {
+      lineNumber++;
+      onLine(stripCarriageReturn(carry), lineNumber);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read just the first line of a Blob (typically the header row)
+ */
+export async function readFirstLine(blob: Blob): Promise<string> {
+  let firstLine = '';
+  await forEachLine(blob, line => {
+    firstLine = line;
+    return false;
+  });
+  return firstLine;
+}
+
+/**
+ * Split a TSV line into trimmed fields
+ */
+export function splitTsvLine(line: string): string[] {
+  return line.split('\t').map(field => field.trim());
+}
+
+/**
+ * Normalise a header cell for comparison (case, spaces, BOM)
+ */
+export function normalizeHeader(header: string): string {
+  return header.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function stripCarriageReturn(line: string): string {
+  return line.endsWith('\r') ? line.slice(0, -1) : line;
+}
@@ -0,0 +1,53 @@
+import { UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { TsvValidator, validateTsvFile } from './tsv-validator';
+
+describe('TsvValidator', () => {
+  it('should accept a well-formed sales file', async () => {
+    const file = new Blob([
+      'day\tsku\tchannel\tquantity\tdiscount\trevenue\n',
+      '2019-01-01\tSKU1\tONLINE\t2\t0.1\t199.50\n',
+      '2019-01-02\tSKU2\tSTORE\t1\t0\t99\n'
+    ]);
+
+    const result = await validateTsvFile(file, UPLOAD_SCHEMAS['sales']);
+
+    expect(result.valid).toBeTrue();
+    expect(result.rowCount).toBe(2);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should report missing header columns', () => {
+    const validator = new TsvValidator(UPLOAD_SCHEMAS['stores']);
+    validator.acceptHeader(['branch']);
+
+    const result = validator.getResult();
+
+    expect(result.valid).toBeFalse();
+    expect(result.errors[0].errorType).toBe('MISSING_COLUMN');
+    expect(result.errors[0].fieldName).toBe('city');
+  });
+
+  it('should report bad numbers, bad dates and empty required fields', () => {
+    const validator = new TsvValidator(UPLOAD_SCHEMAS['sales']);
+    validator.acceptHeader(['day', 'sku', 'channel', 'quantity', 'discount', 'revenue']);
+    validator.acceptRow(['2019-13-45', '', 'ONLINE', 'two', '0', '10'], 2);
+
+    const errorTypes = validator.getResult().errors.map(e => e.errorType);
+
+    expect(errorTypes).toEqual(['INVALID_DATE', 'MISSING_VALUE', 'INVALID_NUMBER']);
+  });
+
+  it('should cap the number of collected errors', () => {
+    const validator = new TsvValidator(UPLOAD_SCHEMAS['stores'], 2);
+    validator.acceptHeader(['branch', 'city']);
+    for (let row = 2; row < 7; row++) {
+      validator.acceptRow(['', ''], row);
+    }
+
+    const result = validator.getResult();
+
+    expect(result.errorCount).toBe(10);
+    expect(result.errors.length).toBe(2);
+    expect(result.truncated).toBeTrue();
+  });
+});
@@ -0,0 +1,194 @@
+import { ColumnSchema, ColumnType, FileSchema, FileValidationError, FileValidationResult, UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { forEachLine, normalizeHeader, splitTsvLine } from './tsv-reader';
+import { TEMPLATE_NOTE_PREFIX } from './sample-data';
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const DECIMAL_PATTERN = /^-?(\d+\.?\d*|\.\d+)$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SLASH_DATE_PATTERN = /^\d{1,2}\/\d{1,2}\/\d{4}$/;
+
+/**
+ * Incremental validator: feed the header, then each row
+ */
+export class TsvValidator {
+  private headers: string[] = [];
+  private columnIndexes = new Map<string, number>();
+  private errors: FileValidationError[] = [];
+  private errorCount = 0;
+  private rowCount = 0;
+  private headerValid = false;
+  private hasTemplateNotes = false;
+
+  constructor(private schema: FileSchema, private maxErrors: number = 50) {}
+
+  /**
+   * Check the header row against the schema
+   */
+  acceptHeader(fields: string[]): void {
+    if (fields[0]?.startsWith(TEMPLATE_NOTE_PREFIX)) {
+      this.addError({
+        rowNumber: 1,
+        errorType: 'TEMPLATE_NOTES',
+        errorReason: `File still contains template notes; delete the lines starting with '${TEMPLATE_NOTE_PREFIX}' before uploading`
+      });
+      this.headers = fields;
+      this.hasTemplateNotes = true;
+      return;
+    }
+
+    this.headers = fields;
+    fields.forEach((field, index) => this.columnIndexes.set(normalizeHeader(field), index));
+
+    const missing = this.schema.columns.filter(column => !this.columnIndexes.has(column.name));
+    missing.forEach(column => {
+      this.addError({
+        rowNumber: 1,
+        errorType: 'MISSING_COLUMN',
+        errorReason: `Required column '${column.name}' not found in header`,
+        fieldName: column.name
+      });
+    });
+    this.headerValid = missing.length === 0;
+  }
+
+  /**
+   * Check a data row; rowNumber is the 1-based line number in the file
+   */
+  acceptRow(fields: string[], rowNumber: number): void {
+    if (fields.length === 1 && fields[0] === '') {
+      return; // Ignore blank lines
+    }
+    if (this.hasTemplateNotes) {
+      return; // Rows can't be checked until the notes are removed
+    }
+
+    this.rowCount++;
+
+    if (fields.length !== this.headers.length) {
+      this.addError({
+        rowNumber,
+        errorType: 'COLUMN_COUNT',
+        errorReason: `Expected ${this.headers.length} columns but found ${fields.length}`
+      });
+    }
+
+    for (const column of this.schema.columns) {
+      const index = this.columnIndexes.get(column.name);
+      if (index === undefined) {
+        continue;
+      }
+      this.checkValue(column, fields[index] ?? '', rowNumber);
+    }
+  }
+
+  /**
+   * Get the accumulated validation result
+   */
+  getResult(): FileValidationResult {
+    if (this.headers.length === 0 && this.errorCount === 0) {
+      this.addError({ rowNumber: 1, errorType: 'EMPTY_FILE', errorReason: 'File is empty' });
+    }
+
+    return {
+      valid: this.headerValid && this.errorCount === 0,
+      headers: this.headers,
+      rowCount: this.rowCount,
+      errorCount: this.errorCount,
+      errors: this.errors,
+      truncated: this.errorCount > this.errors.length
+    };
+  }
+
+  private checkValue(column: ColumnSchema, value: string, rowNumber: number): void {
+    if (value === '') {
+      if (column.required) {
+        this.addError({
+          rowNumber,
+          errorType: 'MISSING_VALUE',
+          errorReason: `Required field '${column.name}' is empty`,
+          fieldName: column.name,
+          fieldValue: value
+        });
+      }
+      return;
+    }
+
+    if (!isValidValue(column.type, value)) {
+      this.addError({
+        rowNumber,
+        errorType: column.type === 'date' ? 'INVALID_DATE' : 'INVALID_NUMBER',
+        errorReason: `'${value}' is not a valid ${column.type}`,
+        fieldName: column.name,
+        fieldValue: value
+      });
+    }
+  }
+
+  private addError(error: FileValidationError): void {
+    this.errorCount++;
+    if (this.errors.length < this.maxErrors) {
+      this.errors.push(error);
+    }
+  }
+}
+
+/**
+ * Check a single value against a column type
+ */
+export function isValidValue(type: ColumnType, value: string): boolean {
+  switch (type) {
+    case 'integer':
+      return INTEGER_PATTERN.test(value);
+    case 'decimal':
+      return DECIMAL_PATTERN.test(value);
+    case 'date':
+      return (ISO_DATE_PATTERN.test(value) || SLASH_DATE_PATTERN.test(value)) && !isNaN(Date.parse(value));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Guess the upload file type from a header row.
+ * Picks the most specific schema whose columns are all present.
+ */
+export function detectFileType(headers: string[]): string | null {
+  const present = new Set(headers.map(normalizeHeader));
+  let best: FileSchema | null = null;
+
+  for (const schema of Object.values(UPLOAD_SCHEMAS)) {
+    const matchesAll = schema.columns.every(column => present.has(column.name));
+    if (matchesAll && (!best || schema.columns.length > best.columns.length)) {
+      best = schema;
+    }
+  }
+
+  return best ? best.fileType : null;
+}
+
+/**
+ * Stream a file through the validator
+ */
+export async function validateTsvFile(
+  file: Blob,
+  schema: FileSchema,
+  maxErrors: number = 50,
+  onProgress?: (percent: number) => void
+): Promise<FileValidationResult> {
+  const validator = new TsvValidator(schema, maxErrors);
+
+  await forEachLine(
+    file,
+    (line, lineNumber) => {
+      const fields = splitTsvLine(line);
+      if (lineNumber === 1) {
+        validator.acceptHeader(fields);
+      } else {
+        validator.acceptRow(fields, lineNumber);
+      }
+    },
+    (bytesRead, totalBytes) => onProgress?.(totalBytes > 0 ? Math.round((bytesRead / totalBytes) * 100) : 100)
+  );
+
+  return validator.getResult();
+}
@@ -0,0 +1,207 @@
+import { ZipEntry, readZipEntries, readZipText } from './archive';
+
+/**
+ * Built-in Excel number formats that display dates
+ */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+/**
+ * Convert the first worksheet of an .xlsx workbook to TSV text.
+ * Date-formatted cells become ISO dates; tabs and line breaks inside cells become spaces.
+ */
+export async function xlsxToTsv(blob: Blob): Promise<Blob> {
+  const entries = await readZipEntries(blob);
+  const workbook = await readRequired(blob, entries, 'xl/workbook.xml');
+  const sheetPath = await findFirstSheetPath(blob, entries, workbook);
+  const sharedStrings = parseSharedStrings(await readZipText(blob, entries, 'xl/sharedStrings.xml') || '');
+  const dateStyles = parseDateStyles(await readZipText(blob, entries, 'xl/styles.xml') || '');
+  const epoch = /<workbookPr\b[^>]*\bdate1904="(1|true)"/.test(workbook) ? EPOCH_1904 : EPOCH_1900;
+
+  const sheet = await readRequired(blob, entries, sheetPath);
+  const lines: string[] = [];
+  let width = 0;
+
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const reference = getAttribute(attributes, 'r');
+      const column = reference ? columnIndex(reference) : cells.length;
+      while (cells.length < column) {
+        cells.push('');
+      }
+      cells[column] = formatCell(
+        getAttribute(attributes, 't'),
+        Number(getAttribute(attributes, 's') || 0),
+        cellMatch[2] || '',
+        sharedStrings,
+        dateStyles,
+        epoch
+      );
+    }
+
+    if (lines.length === 0) {
+      width = cells.length;
+    }
+    if (cells.every(cell => cell === '')) {
+      continue;
+    }
+    // Drop empty trailing cells past the header, pad short rows up to it
+    while (cells.length > width && cells[cells.length - 1] === '') {
+      cells.pop();
+    }
+    while (cells.length < width) {
+      cells.push('');
+    }
+    lines.push(cells.join('\t'));
+  }
+
+  return new Blob([lines.join('\n') + (lines.length > 0 ? '\n' : '')], { type: 'text/tab-separated-values' });
+}
+
+async function readRequired(blob: Blob, entries: ZipEntry[], name: string): Promise<string> {
+  const text = await readZipText(blob, entries, name);
+  if (text === null) {
+    throw new Error(`Not an Excel workbook: '${name}' is missing`);
+  }
+  return text;
+}
+
+/**
+ * Resolve the first sheet in workbook order to its part path
+ */
+async function findFirstSheetPath(blob: Blob, entries: ZipEntry[], workbook: string): Promise<string> {
+  const sheet = /<sheet\b([^>]*)\/?>/.exec(workbook);
+  const relationId = sheet ? getAttribute(sheet[1], 'r:id') : null;
+  const relations = await readZipText(blob, entries, 'xl/_rels/workbook.xml.rels') || '';
+
+  for (const match of relations.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (getAttribute(match[1], 'Id') === relationId) {
+      const target = getAttribute(match[1], 'Target') || '';
+      return target.startsWith('/') ? target.substring(1) : `xl/${target}`;
+    }
+  }
+
+  const fallback = entries.find(entry => /^xl\/worksheets\/[^/]+\.xml$/.test(entry.name));
+  if (!fallback) {
+    throw new Error('The workbook has no worksheets');
+  }
+  return fallback.name;
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => readText(match[1]));
+}
+
+/**
+ * Which cell style indexes (cellXfs) display their value as a date
+ */
+function parseDateStyles(xml: string): boolean[] {
+  const customDateFormats = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const code = decodeXml(getAttribute(match[1], 'formatCode') || '')
+      .replace(/"[^"]*"/g, '')
+      .replace(/\[[^\]]*\]/g, '');
+    if (/[dy]/i.test(code)) {
+      customDateFormats.add(Number(getAttribute(match[1], 'numFmtId')));
+    }
+  }
+
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(xml);
+  if (!cellXfs) {
+    return [];
+  }
+  return Array.from(cellXfs[1].matchAll(/<xf\b([^>]*)/g), match => {
+    const formatId = Number(getAttribute(match[1], 'numFmtId') || 0);
+    return BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId);
+  });
+}
+
+function formatCell(
+  type: string | null,
+  style: number,
+  body: string,
+  sharedStrings: string[],
+  dateStyles: boolean[],
+  epoch: number
+): string {
+  const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+  let text: string;
+
+  switch (type) {
+    case 's':
+      text = sharedStrings[Number(value)] ?? '';
+      break;
+    case 'inlineStr':
+      text = readText(/<is>([\s\S]*?)<\/is>/.exec(body)?.[1] || '');
+      break;
+    case 'str':
+      text = decodeXml(value || '');
+      break;
+    case 'b':
+      text = value === '1' ? 'TRUE' : 'FALSE';
+      break;
+    case 'e':
+      text = '';
+      break;
+    default:
+      text = value === undefined ? '' : dateStyles[style] ? serialToDate(Number(value), epoch) : value;
+  }
+
+  return text.replace(/[\t\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Excel serial day number to yyyy-MM-dd (with the time when it has one)
+ */
+function serialToDate(serial: number, epoch: number): string {
+  if (isNaN(serial)) {
+    return '';
+  }
+  const iso = new Date(epoch + Math.round(serial * MS_PER_DAY)).toISOString();
+  return Number.isInteger(serial) ? iso.substring(0, 10) : iso.substring(0, 19).replace('T', ' ');
+}
+
+/**
+ * Concatenate the <t> runs of a rich-text string, skipping phonetic hints
+ */
+function readText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => decodeXml(match[1])).join('');
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? match[1] : null;
+}
+
+/**
+ * Zero-based column index of a cell reference like "AB12"
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.substring(2), 16)
+          : parseInt(entity.substring(1), 10));
+    }
+  });
+}
@@ -0,0 +1,36 @@
+import {
+  ColumnMapping,
+  ConvertedFile,
+  DatasetDiff,
+  DatasetProfile,
+  FilePreview,
+  FileValidationResult,
+  ReferenceCheckResult,
+  SampleDataset,
+  SampleDatasetOptions
+} from '../models/upload-schema.model';
+import { ReferenceSource } from '../utils/reference-check';
+import { FileHash } from '../utils/file-hash';
+
+/**
+ * Messages exchanged between FileAnalysisService and file-analysis.worker
+ */
+export type FileAnalysisRequest =
+  | { command: 'validate'; file: Blob; fileType: string; maxErrors: number }
+  | { command: 'preview'; file: Blob; maxRows: number }
+  | { command: 'remap'; file: Blob; fileType: string; mapping: ColumnMapping }
+  | { command: 'convert'; file: Blob; fileName: string }
+  | { command: 'diff'; current: Blob; file: Blob; fileType: string; maxSampleRows: number }
+  | { command: 'sample'; options: SampleDatasetOptions }
+  | { command: 'profile'; file: Blob; fileType: string; topN: number }
+  | { command: 'references'; file: Blob; references: ReferenceSource[]; maxSampleRows: number }
+  | { command: 'excludeOrphans'; file: Blob; references: ReferenceSource[] }
+  | { command: 'hash'; file: Blob };
+
+export type FileAnalysisResult = FileValidationResult | FilePreview | Blob | ConvertedFile | DatasetDiff | SampleDataset
+  | DatasetProfile | ReferenceCheckResult | FileHash;
+
+export type FileAnalysisResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; result: FileAnalysisResult }
+  | { type: 'error'; message: string };
@@ -0,0 +1,83 @@
+/// <reference lib="webworker" />
+
+import { FileAnalysisRequest, FileAnalysisResponse } from './file-analysis.messages';
+import { FileSchema, UPLOAD_SCHEMAS } from '../models/upload-schema.model';
+import { validateTsvFile } from '../utils/tsv-validator';
+import { buildFilePreview } from '../utils/file-preview';
+import { remapTsvFile } from '../utils/column-mapping';
+import { convertToTsv } from '../utils/file-conversion';
+import { diffDatasets } from '../utils/dataset-diff';
+import { generateSampleDataset } from '../utils/sample-data';
+import { profileDataset } from '../utils/dataset-profile';
+import { checkReferences, excludeOrphanRows } from '../utils/reference-check';
+import { hashFile } from '../utils/file-hash';
+
+addEventListener('message', async ({ data }: MessageEvent<FileAnalysisRequest>) => {
+  const post = (response: FileAnalysisResponse) => postMessage(response);
+  const onProgress = (percent: number) => post({ type: 'progress', progress: percent });
+
+  try {
+    switch (data.command) {
+      case 'validate': {
+        const result = await validateTsvFile(data.file, getSchema(data.fileType), data.maxErrors, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'preview': {
+        const result = await buildFilePreview(data.file, data.maxRows, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'remap': {
+        const result = await remapTsvFile(data.file, getSchema(data.fileType), data.mapping, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'convert': {
+        const result = await convertToTsv(data.file, data.fileName, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'diff': {
+        const result = await diffDatasets(data.current, data.file, getSchema(data.fileType), data.maxSampleRows, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'sample': {
+        const result = await generateSampleDataset(data.options, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'profile': {
+        const result = await profileDataset(data.file, getSchema(data.fileType), data.topN, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'references': {
+        const result = await checkReferences(data.file, data.references, data.maxSampleRows, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'excludeOrphans': {
+        const result = await excludeOrphanRows(data.file, data.references, onProgress);
+        post({ type: 'result', result });
+        break;
+      }
+      case 'hash': {
+        const result = await hashFile(data.file);
+        post({ type: 'result', result });
+        break;
+      }
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+function getSchema(fileType: string): FileSchema {
+  const schema = UPLOAD_SCHEMAS[fileType];
+  if (!schema) {
+    throw new Error(`No schema defined for file type '${fileType}'`);
+  }
+  return schema;
+}